@@ -0,0 +1,219 @@
+/**
+ * Indexer Check
+ *
+ * Offline run of the swap indexer against a stub RPC: `npm run indexer-check`.
+ * The stub serves canned getSignaturesForAddress / getTransactions results
+ * built from the program IDL, so nothing leaves the machine.
+ *
+ * 1. a sync into a memory store decodes swap, add and remove events, skipping
+ *    failed signatures and transactions without swap program instructions
+ * 2. a second sync only reads what is newer than the cursor
+ * 3. the events endpoint pages through the index (limit, offset, kind filter)
+ *
+ * Exits non-zero on the first mismatch.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BorshInstructionCoder, type Idl } from '@coral-xyz/anchor';
+import {
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    type ConfirmedSignatureInfo,
+    type VersionedTransactionResponse,
+} from '@solana/web3.js';
+import { NextRequest } from 'next/server';
+import lightSwapIdl from '@/idl/light_swap_psp.json';
+import { PROGRAM_IDS } from '@/lib/cluster-config';
+import { encodePoolState } from '@/lib/pool-state';
+import { derivePoolAddress } from '@/lib/swap-client';
+import { createMemoryStore, type IndexerRpc, type PoolEventKind } from '@/lib/swap-indexer';
+import { syncIndexer } from '@/lib/indexer-store';
+
+const CLUSTER = 'devnet';
+
+function check(condition: boolean, message: string) {
+    if (!condition) throw new Error(`Check failed: ${message}`);
+    console.log(`✓ ${message}`);
+}
+
+const coder = new BorshInstructionCoder(lightSwapIdl as Idl);
+const operator = Keypair.generate().publicKey;
+const [traderA, traderB] = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+const [mintA, mintB] = [Keypair.generate().publicKey, Keypair.generate().publicKey]
+    .sort((a, b) => a.toBuffer().compare(b.toBuffer()));
+const poolAddress = derivePoolAddress(mintA, mintB).toBase58();
+
+const poolData = encodePoolState({
+    authority: operator,
+    mintA,
+    mintB,
+    reserveAHandle: '1',
+    reserveBHandle: '2',
+    feeBps: 30,
+    isPaused: false,
+});
+
+// Swap program instruction as the client would send it (only the data matters to the indexer)
+function poolInstruction(kind: PoolEventKind, leafIndex: number, aToB = false): TransactionInstruction {
+    const common = {
+        proof: { 0: null },
+        pool_meta: {
+            tree_info: { root_index: 0, prove_by_index: false, merkle_tree_pubkey_index: 0, queue_pubkey_index: 1, leaf_index: leafIndex },
+            address: new Array(32).fill(0),
+            output_state_tree_index: 0,
+        },
+        pool_data: poolData,
+        input_type: 0,
+    };
+    const data = kind === 'swap'
+        ? coder.encode('swap_exact_in', {
+            ...common,
+            amount_in_ciphertext: Buffer.alloc(8),
+            amount_out_ciphertext: Buffer.alloc(8),
+            fee_amount_ciphertext: Buffer.alloc(8),
+            a_to_b: aToB,
+        })
+        : coder.encode(kind, {
+            ...common,
+            amount_a_ciphertext: Buffer.alloc(8),
+            amount_b_ciphertext: Buffer.alloc(8),
+        });
+    return new TransactionInstruction({ programId: PROGRAM_IDS.swap, keys: [], data });
+}
+
+interface StubTransaction {
+    signature: string;
+    slot: number;
+    signer: PublicKey;
+    instructions: TransactionInstruction[];
+    failed?: boolean;
+}
+
+/**
+ * IndexerRpc over a fixed list of transactions (oldest first), paging like the real RPC
+ */
+function stubRpc(transactions: StubTransaction[]): IndexerRpc & { transactionReads: number } {
+    const newestFirst = () => [...transactions].reverse();
+    const rpc = {
+        transactionReads: 0,
+        getSignaturesForAddress: async (_address: PublicKey, options: { before?: string; until?: string; limit?: number } = {}) => {
+            let list = newestFirst();
+            if (options.before) list = list.slice(list.findIndex(t => t.signature === options.before) + 1);
+            if (options.until) {
+                const until = list.findIndex(t => t.signature === options.until);
+                if (until >= 0) list = list.slice(0, until);
+            }
+            return list.slice(0, options.limit ?? 1000).map((t): ConfirmedSignatureInfo => ({
+                signature: t.signature,
+                slot: t.slot,
+                err: t.failed ? { InstructionError: [0, 'Custom'] } : null,
+                memo: null,
+                blockTime: 1_700_000_000 + t.slot,
+            }));
+        },
+        getTransactions: async (signatures: string[]) => signatures.map(signature => {
+            rpc.transactionReads++;
+            const t = transactions.find(tx => tx.signature === signature);
+            if (!t) return null;
+            const message = new TransactionMessage({
+                payerKey: t.signer,
+                recentBlockhash: PublicKey.default.toBase58(),
+                instructions: t.instructions,
+            }).compileToV0Message();
+            return {
+                slot: t.slot,
+                blockTime: 1_700_000_000 + t.slot,
+                transaction: { message, signatures: [signature] },
+                meta: { err: null, loadedAddresses: { writable: [], readonly: [] } },
+            } as unknown as VersionedTransactionResponse;
+        }),
+    };
+    return rpc as unknown as IndexerRpc & { transactionReads: number };
+}
+
+async function main() {
+    const transfer = SystemProgram.transfer({ fromPubkey: traderA, toPubkey: traderB, lamports: 1 });
+    const transactions: StubTransaction[] = [
+        { signature: 'sig-1', slot: 10, signer: operator, instructions: [poolInstruction('add_liquidity', 0)] },
+        { signature: 'sig-2', slot: 11, signer: traderA, instructions: [poolInstruction('swap', 1, true)] },
+        { signature: 'sig-3', slot: 12, signer: traderB, instructions: [poolInstruction('swap', 2, false)], failed: true },
+        { signature: 'sig-4', slot: 13, signer: traderB, instructions: [transfer] },
+        { signature: 'sig-5', slot: 14, signer: traderB, instructions: [poolInstruction('swap', 2, false)] },
+        { signature: 'sig-6', slot: 15, signer: operator, instructions: [poolInstruction('remove_liquidity', 3)] },
+    ];
+    const rpc = stubRpc(transactions);
+
+    // 1. Decoding into a memory store
+    const store = createMemoryStore();
+    const state = await syncIndexer(CLUSTER, { force: true, rpc, store });
+    const kinds = state.events.map(e => e.kind);
+    check(
+        kinds.join() === ['remove_liquidity', 'swap', 'swap', 'add_liquidity'].join(),
+        'sync decoded remove, swap, swap, add (newest first); failed and foreign transactions skipped'
+    );
+    const [remove, swapBToA, swapAToB, add] = state.events;
+    check(
+        swapAToB.aToB === true && swapAToB.signer === traderA.toBase58()
+            && swapBToA.aToB === false && swapBToA.signer === traderB.toBase58(),
+        'swaps carry their direction and signer'
+    );
+    check(
+        add.aToB === null && remove.aToB === null && add.signer === operator.toBase58(),
+        'liquidity events carry no direction and the operator as signer'
+    );
+    check(
+        state.events.every(e => e.pool === poolAddress && e.feeBps === 30)
+            && state.events.map(e => e.leafIndex).join() === '3,2,1,0',
+        'events name the pool derived from pool_data, its fee tier and the consumed leaf'
+    );
+    check(state.cursor === 'sig-6', 'cursor is the newest signature');
+
+    // 2. Incremental sync
+    transactions.push({ signature: 'sig-7', slot: 16, signer: traderA, instructions: [poolInstruction('swap', 4, true)] });
+    const readsBefore = rpc.transactionReads;
+    const next = await syncIndexer(CLUSTER, { force: true, rpc, store });
+    check(
+        rpc.transactionReads - readsBefore === 1 && next.events.length === 5 && next.events[0].signature === 'sig-7',
+        'second sync read only the new transaction'
+    );
+
+    // 3. Events endpoint over the cluster's file store, synced from the stub just before
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'indexer-check-'));
+    process.env.INDEXER_DATA_DIR = dataDir;
+    try {
+        await syncIndexer(CLUSTER, { force: true, rpc });
+        const { GET } = await import('@/app/api/indexer/events/route');
+        const events = async (query: string) => {
+            const response = await GET(new NextRequest(`http://localhost/api/indexer/events?cluster=${CLUSTER}&${query}`));
+            return response.json();
+        };
+
+        const first = await events('limit=2');
+        check(
+            first.items.length === 2 && first.total === 5 && first.nextOffset === 2
+                && first.items[0].signature === 'sig-7',
+            'first page holds the 2 newest of 5 events'
+        );
+        const last = await events('limit=2&offset=4');
+        check(
+            last.items.length === 1 && last.nextOffset === null && last.items[0].signature === 'sig-1',
+            'last page holds the oldest event and no next offset'
+        );
+        const swaps = await events('kind=swap&limit=100');
+        check(swaps.total === 3 && swaps.items.every((e: { kind: string }) => e.kind === 'swap'), 'kind filter returns the 3 swaps');
+    } finally {
+        await fs.rm(dataDir, { recursive: true, force: true });
+    }
+
+    console.log('Indexer check passed');
+}
+
+main().catch(e => {
+    console.error(e);
+    process.exit(1);
+});
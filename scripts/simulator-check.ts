@@ -0,0 +1,168 @@
+/**
+ * Simulator Check
+ *
+ * Offline run of the swap and liquidity flows against the local simulator
+ * (no RPC, indexer or covalidator): `npm run simulate`.
+ *
+ * 1. swap_exact_in at the quoted amounts moves both balances and the reserves
+ * 2. a swap asking for more than the quote fails the program's guard: the
+ *    transaction lands but every amount is zeroed
+ * 3. the pool operator adds and removes liquidity; anyone else is rejected
+ *
+ * Exits non-zero on the first mismatch.
+ */
+
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import {
+    enableSimulator,
+    resetSimulator,
+    createSimulatedConnection,
+    getShadowReserves,
+    simulatorDecrypt,
+    SIMULATOR_OPERATOR,
+} from '@/lib/local-simulator';
+import { addLiquidity, removeLiquidity, swapExactIn, encryptAmount, invalidatePoolState, type WalletAdapter } from '@/lib/swap-client';
+import { fetchPoolReserves, quoteExactIn, encryptSwapQuote } from '@/lib/pool-quote';
+import { ensureUserIncoAccounts } from '@/lib/inco-account-manager';
+import { getActiveConfig } from '@/lib/cluster-config';
+import { fetchUserIncoAccounts } from '@/lib/inco-balance';
+import { submitTransaction } from '@/lib/tx-submitter';
+
+const ONE_SOL = 10n ** 9n;
+const ONE_USDC = 10n ** 6n;
+
+function check(condition: boolean, message: string) {
+    if (!condition) throw new Error(`Check failed: ${message}`);
+    console.log(`✓ ${message}`);
+}
+
+// Generic signer, so it fits both the swap-client and the account manager wallet types
+function keypairWallet(keypair: Keypair) {
+    return {
+        publicKey: keypair.publicKey,
+        signTransaction: async <T extends Transaction | VersionedTransaction>(tx: T): Promise<T> => {
+            if (tx instanceof VersionedTransaction) tx.sign([keypair]);
+            else tx.partialSign(keypair);
+            return tx;
+        },
+        signMessage: async (message: Uint8Array) => message, // the simulator decrypts without a signature
+    };
+}
+
+async function main() {
+    enableSimulator();
+    resetSimulator();
+    const connection = createSimulatedConnection();
+
+    const send = (wallet: WalletAdapter, transaction: Transaction | VersionedTransaction) => submitTransaction({
+        connection,
+        transaction,
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+    });
+
+    // Trader funded by the simulated faucet, trading on the cluster's default pool
+    const trader = keypairWallet(Keypair.generate());
+    const { tokenA, tokenB } = await ensureUserIncoAccounts(connection, trader);
+    const { mints, pool } = getActiveConfig();
+    const [mintA, mintB] = [mints.a, mints.b];
+
+    const reserves = () => getShadowReserves(mintA, mintB)!;
+    const balances = async (owner: PublicKey) => {
+        const { tokenA, tokenB } = await fetchUserIncoAccounts(connection, owner);
+        const [a, b] = simulatorDecrypt([tokenA!.amountHandle, tokenB!.amountHandle]);
+        return { a: BigInt(a), b: BigInt(b) };
+    };
+
+    const swap = async (amountIn: bigint, amountOut?: bigint) => {
+        invalidatePoolState(mintA, mintB);
+        const poolReserves = await fetchPoolReserves(mintA, mintB, trader.publicKey, trader.signMessage);
+        const quote = quoteExactIn(amountIn, true, poolReserves);
+        const ciphertexts = await encryptSwapQuote({ ...quote, amountOut: amountOut ?? quote.amountOut });
+        const tx = await swapExactIn({
+            connection,
+            wallet: trader,
+            mintA,
+            mintB,
+            ...ciphertexts,
+            aToB: true,
+            userTokenA: tokenA,
+            userTokenB: tokenB,
+            poolVaultA: pool.vaultA,
+            poolVaultB: pool.vaultB,
+        });
+        await send(trader, tx);
+        return quote;
+    };
+
+    // 1. Swap at the quote
+    const reservesBefore = reserves();
+    const balancesBefore = await balances(trader.publicKey);
+    const quote = await swap(ONE_SOL);
+    const balancesAfter = await balances(trader.publicKey);
+    check(quote.amountOut > 0n, `quote for 1 SOL pays ${quote.amountOut} USDC base units`);
+    check(balancesAfter.a === balancesBefore.a - ONE_SOL, 'trader paid 1 SOL');
+    check(balancesAfter.b === balancesBefore.b + quote.amountOut, 'trader received the quoted USDC');
+    check(
+        reserves().reserveA === reservesBefore.reserveA + ONE_SOL
+            && reserves().reserveB === reservesBefore.reserveB - quote.amountOut,
+        'pool reserves moved by the swap amounts'
+    );
+
+    // 2. Asking for more than the pool pays zeroes the swap instead of failing it
+    const reservesBeforeGuard = reserves();
+    await swap(ONE_SOL, reservesBeforeGuard.reserveB);
+    const balancesAfterGuard = await balances(trader.publicKey);
+    check(
+        balancesAfterGuard.a === balancesAfter.a && balancesAfterGuard.b === balancesAfter.b,
+        'guard-failing swap landed without moving balances'
+    );
+    check(
+        reserves().reserveA === reservesBeforeGuard.reserveA && reserves().reserveB === reservesBeforeGuard.reserveB,
+        'guard-failing swap left the reserves unchanged'
+    );
+
+    // 3. Liquidity is operator-only
+    const operator = keypairWallet(SIMULATOR_OPERATOR);
+    const liquidity = async (wallet: WalletAdapter, remove: boolean, amountA: bigint, amountB: bigint) => {
+        invalidatePoolState(mintA, mintB);
+        const params = {
+            connection,
+            wallet,
+            mintA,
+            mintB,
+            amountACiphertext: await encryptAmount(amountA),
+            amountBCiphertext: await encryptAmount(amountB),
+        };
+        await send(wallet, remove ? await removeLiquidity(params) : await addLiquidity(params));
+    };
+
+    const reservesBeforeAdd = reserves();
+    await liquidity(operator, false, 10n * ONE_SOL, 1_500n * ONE_USDC);
+    check(
+        reserves().reserveA === reservesBeforeAdd.reserveA + 10n * ONE_SOL
+            && reserves().reserveB === reservesBeforeAdd.reserveB + 1_500n * ONE_USDC,
+        'operator added 10 SOL / 1,500 USDC'
+    );
+
+    await liquidity(operator, true, 5n * ONE_SOL, 750n * ONE_USDC);
+    check(
+        reserves().reserveA === reservesBeforeAdd.reserveA + 5n * ONE_SOL
+            && reserves().reserveB === reservesBeforeAdd.reserveB + 750n * ONE_USDC,
+        'operator removed 5 SOL / 750 USDC'
+    );
+
+    const reservesBeforeIntruder = reserves();
+    const rejected = await liquidity(trader, false, ONE_SOL, ONE_USDC).then(() => false, () => true);
+    check(
+        rejected && reserves().reserveA === reservesBeforeIntruder.reserveA,
+        'add_liquidity from a non-operator wallet was rejected'
+    );
+
+    console.log('Simulator check passed');
+}
+
+main().catch(e => {
+    console.error(e);
+    process.exit(1);
+});
@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { Shield, ArrowLeft, Loader2, BarChart3, RefreshCw, AlertCircle, Lock } from 'lucide-react';
+import { derivePoolAddress } from '@/lib/swap-client';
+import { listPools, type PoolEntry } from '@/lib/pool-registry';
+import { formatFeeBps } from '@/lib/pool-state';
+import { getActiveConfig } from '@/lib/cluster-config';
+import type { ActivityBucket, ActivityInterval, IndexedPool } from '@/lib/swap-indexer';
+import { ActivityChart } from '@/components/ActivityChart';
+import { ClusterSwitcher } from '@/components/ClusterSwitcher';
+
+const WalletMultiButton = dynamic(
+    () => import('@solana/wallet-adapter-react-ui').then(mod => mod.WalletMultiButton),
+    { ssr: false, loading: () => <div className="h-10 w-32 bg-secondary rounded-lg animate-pulse" /> }
+);
+
+const ALL_POOLS = '';
+
+function formatBucket(start: number, interval: ActivityInterval): string {
+    const date = new Date(start * 1000);
+    return interval === 'hour'
+        ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function formatAgo(blockTime: number | null): string {
+    if (!blockTime) return '—';
+    const minutes = Math.floor((Date.now() / 1000 - blockTime) / 60);
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h ago`;
+    return `${Math.floor(minutes / 60 / 24)}d ago`;
+}
+
+async function fetchIndexer<T>(path: string, params: Record<string, string>): Promise<T> {
+    const query = new URLSearchParams({ cluster: getActiveConfig().cluster, ...params });
+    const resp = await fetch(`/api/indexer/${path}?${query}`);
+    const result = await resp.json();
+    if (!resp.ok) throw new Error(result.error || `Indexer request failed (${resp.status})`);
+    return result;
+}
+
+export default function AnalyticsPage() {
+    return (
+        <main className="min-h-screen flex flex-col items-center p-4 relative overflow-hidden">
+            {/* Header */}
+            <header className="w-full p-6 flex justify-between items-center z-10">
+                <div className="flex items-center gap-3">
+                    <Link href="/" className="text-muted-foreground hover:text-foreground transition-colors">
+                        <ArrowLeft className="w-5 h-5" />
+                    </Link>
+                    <Shield className="w-8 h-8 text-primary" />
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight">
+                            Velvet<span className="text-primary">Swap</span>
+                        </h1>
+                        <p className="text-xs text-muted-foreground -mt-0.5">Pool Analytics</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <ClusterSwitcher />
+                    <WalletMultiButton />
+                </div>
+            </header>
+
+            <div className="relative z-10 w-full max-w-3xl mt-4">
+                <div className="glass rounded-3xl p-1.5 velvet-glow">
+                    <PoolAnalytics />
+                </div>
+            </div>
+        </main>
+    );
+}
+
+function PoolAnalytics() {
+    const { connection } = useConnection();
+
+    const [pools, setPools] = useState<IndexedPool[]>([]);
+    const [registry, setRegistry] = useState<PoolEntry[]>([]);
+    const [selected, setSelected] = useState<string>(ALL_POOLS);
+    const [bucketInterval, setBucketInterval] = useState<ActivityInterval>('hour');
+    const [series, setSeries] = useState<ActivityBucket[]>([]);
+    const [syncedAt, setSyncedAt] = useState<number | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Token symbols for pool labels, keyed by the pool's derived address
+    useEffect(() => {
+        listPools(connection)
+            .then(setRegistry)
+            .catch(e => console.warn('Failed to load pool registry:', e));
+    }, [connection]);
+
+    const pairLabel = useCallback((pool: IndexedPool) => {
+        const entry = registry.find(p =>
+            derivePoolAddress(p.state.mintA, p.state.mintB).toBase58() === pool.pool
+        );
+        if (entry) return `${entry.tokenA.symbol}/${entry.tokenB.symbol}`;
+        return `${pool.mintA.slice(0, 4)}.../${pool.mintB.slice(0, 4)}...`;
+    }, [registry]);
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const poolPage = await fetchIndexer<{ items: IndexedPool[] }>('pools', { limit: '100' });
+            setPools(poolPage.items);
+            const analytics = await fetchIndexer<{ series: ActivityBucket[]; syncedAt: number | null }>('analytics', {
+                interval: bucketInterval,
+                ...(selected ? { pool: selected } : {}),
+            });
+            setSeries(analytics.series);
+            setSyncedAt(analytics.syncedAt);
+        } catch (e: any) {
+            console.error('Failed to load analytics:', e);
+            setError(e.message);
+        } finally {
+            setLoading(false);
+        }
+    }, [bucketInterval, selected]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const labels = useMemo(() => series.map(b => formatBucket(b.start, bucketInterval)), [series, bucketInterval]);
+
+    // Buckets without events keep the last known fee tier; those before the first event stay empty
+    const feeTiers = useMemo(() => {
+        let last: number | null = null;
+        return series.map(b => (last = b.feeBps ?? last));
+    }, [series]);
+
+    return (
+        <div className="bg-card rounded-[22px] p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                    <BarChart3 className="w-4 h-4 text-primary" />
+                    <span>Pool Activity</span>
+                </div>
+                <div className="flex items-center gap-3 text-xs">
+                    {(['hour', 'day'] as const).map(value => (
+                        <button
+                            key={value}
+                            onClick={() => setBucketInterval(value)}
+                            className={`px-2 py-1 rounded-md transition-colors ${
+                                bucketInterval === value ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground'
+                            }`}
+                        >
+                            {value === 'hour' ? '24h' : '30d'}
+                        </button>
+                    ))}
+                    <button
+                        onClick={load}
+                        disabled={loading}
+                        className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                    >
+                        {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            <p className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                <Lock className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                Amounts and reserves stay encrypted. These figures come from public instruction data only:
+                counts, swap direction, signers, fee tier and compressed-state leaves.
+            </p>
+
+            {error && (
+                <div className="flex items-center gap-2 text-xs text-red-400">
+                    <AlertCircle className="w-4 h-4" />
+                    {error}
+                </div>
+            )}
+
+            {/* Per-pool totals */}
+            <section className="space-y-1.5">
+                <button
+                    onClick={() => setSelected(ALL_POOLS)}
+                    className={`w-full text-left rounded-lg p-2.5 text-xs transition-colors ${
+                        selected === ALL_POOLS ? 'bg-primary/10 ring-1 ring-primary/40' : 'bg-secondary/50 hover:bg-secondary'
+                    }`}
+                >
+                    All pools ({pools.length})
+                </button>
+                {pools.map(pool => {
+                    const mix = pool.swaps > 0 ? Math.round((pool.swapsAToB / pool.swaps) * 100) : null;
+                    return (
+                        <button
+                            key={pool.pool}
+                            onClick={() => setSelected(pool.pool)}
+                            className={`w-full text-left rounded-lg p-2.5 text-xs transition-colors ${
+                                selected === pool.pool ? 'bg-primary/10 ring-1 ring-primary/40' : 'bg-secondary/50 hover:bg-secondary'
+                            }`}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium">{pairLabel(pool)}</span>
+                                <span className="text-muted-foreground">{formatFeeBps(pool.feeBps)} fee · {formatAgo(pool.lastBlockTime)}</span>
+                            </div>
+                            <div className="flex items-center justify-between gap-2 text-muted-foreground mt-0.5">
+                                <span>
+                                    {pool.swaps} swaps{mix !== null && ` (${mix}% A→B)`} · {pool.traders} traders
+                                    · {pool.deposits} deposits · {pool.withdrawals} withdrawals
+                                </span>
+                                <span className="font-mono">{pool.leafIndex !== null ? `leaf ${pool.leafIndex}` : ''}</span>
+                            </div>
+                        </button>
+                    );
+                })}
+                {pools.length === 0 && !loading && (
+                    <p className="text-xs text-muted-foreground">No pool activity indexed yet.</p>
+                )}
+            </section>
+
+            {/* Over time */}
+            {series.length > 0 && (
+                <section className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <ActivityChart
+                        title="Swaps by direction"
+                        labels={labels}
+                        series={[
+                            { label: 'A→B', color: 'bg-primary', values: series.map(b => b.swapsAToB) },
+                            { label: 'B→A', color: 'bg-emerald-500', values: series.map(b => b.swapsBToA) },
+                        ]}
+                    />
+                    <ActivityChart
+                        title="Unique traders"
+                        labels={labels}
+                        series={[{ label: 'traders', color: 'bg-blue-500', values: series.map(b => b.traders) }]}
+                    />
+                    <ActivityChart
+                        title="Liquidity changes"
+                        labels={labels}
+                        series={[
+                            { label: 'deposits', color: 'bg-emerald-500', values: series.map(b => b.deposits) },
+                            { label: 'withdrawals', color: 'bg-amber-500', values: series.map(b => b.withdrawals) },
+                        ]}
+                    />
+                    <ActivityChart
+                        title="Compressed-state leaf churn"
+                        labels={labels}
+                        series={[{ label: 'leaves', color: 'bg-purple-500', values: series.map(b => b.leafChurn) }]}
+                    />
+                    <ActivityChart
+                        title="Fee tier (bps)"
+                        labels={labels}
+                        series={[{ label: 'bps', color: 'bg-muted-foreground', values: feeTiers }]}
+                    />
+                </section>
+            )}
+
+            {syncedAt && (
+                <p className="text-[10px] text-muted-foreground text-right">
+                    Indexed {new Date(syncedAt).toLocaleTimeString()}
+                </p>
+            )}
+        </div>
+    );
+}
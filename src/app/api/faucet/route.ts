@@ -6,7 +6,7 @@
  * Creates IncoAccounts + mints with ECIES + allowance PDAs.
  * 
  * POST /api/faucet
- * Body: { wallet: string, tokenA?: string, tokenB?: string }
+ * Body: { wallet: string, tokenA?: string, tokenB?: string, speed?: 'economy' | 'normal' | 'fast', cluster?: 'localnet' | 'devnet' }
  * 
  * - If tokenA/tokenB are provided, mints to those existing accounts
  * - If not provided, creates new accounts first
@@ -20,20 +20,30 @@ import {
     Transaction,
     SystemProgram,
     ComputeBudgetProgram,
+    TransactionInstruction,
 } from '@solana/web3.js';
 import { Program, AnchorProvider } from '@coral-xyz/anchor';
-
-// Constants
-const INCO_LIGHTNING_PROGRAM_ID = new PublicKey('5sjEbPiqgZrYwR31ahR6Uk9wf5awoX61YGg7jExQSwaj');
-const INCO_TOKEN_PROGRAM_ID = new PublicKey('CYVSeUyVzHGVcrxsJt3E8tbaPCQT8ASdRR45g5WxUEW7');
-const INCO_MINT_A = new PublicKey('4AJDgxnHDNP7y9wSD24sP7YUhQrMyprLUeuRwEwYu6cy');
-const INCO_MINT_B = new PublicKey('CvymLX1Tm6btpRJdfGeQ34k726yQnXSn1V7G4fworMaG');
+import {
+    planFees,
+    computeBudgetInstructions,
+    isFeeSpeed,
+    MAX_COMPUTE_UNITS,
+    type FeeSpeed,
+} from '@/lib/fee-planner';
+import {
+    getActiveConfig,
+    getClusterConfig,
+    isCluster,
+    PROGRAM_IDS,
+    serverRpcEndpoint,
+} from '@/lib/cluster-config';
+import { decodeError, describeError } from '@/lib/swap-errors';
+
+// Program IDs are pinned by the swap IDL, so they are the same on every cluster
+const INCO_LIGHTNING_PROGRAM_ID = PROGRAM_IDS.incoLightning;
+const INCO_TOKEN_PROGRAM_ID = PROGRAM_IDS.incoToken;
 const INPUT_TYPE = 0;
 
-const RPC_URL = process.env.HELIUS_DEVNET_API_KEY
-    ? `https://devnet.helius-rpc.com/?api-key=${process.env.HELIUS_DEVNET_API_KEY}`
-    : 'https://api.devnet.solana.com';
-
 function getDeployerKeypair(): Keypair {
     const key = process.env.DEPLOYER_PRIVATE_KEY;
     if (!key) {
@@ -91,6 +101,18 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'wallet is required' }, { status: 400 });
         }
 
+        // Mints come from the caller's cluster config
+        const cluster = body.cluster ?? getActiveConfig().cluster;
+        if (!isCluster(cluster)) {
+            return NextResponse.json({ error: `Unknown cluster: ${cluster}` }, { status: 400 });
+        }
+        const config = getClusterConfig(cluster);
+        if (!config.faucet) {
+            return NextResponse.json({ error: `Faucet is not available on ${cluster}` }, { status: 400 });
+        }
+        const mintA = config.mints.a;
+        const mintB = config.mints.b;
+
         // Rate limit check
         const now = Date.now();
         const lastCall = rateLimitMap.get(walletStr) || 0;
@@ -101,7 +123,7 @@ export async function POST(request: NextRequest) {
 
         const userWallet = new PublicKey(walletStr);
         const deployer = getDeployerKeypair();
-        const connection = new Connection(RPC_URL, 'confirmed');
+        const connection = new Connection(serverRpcEndpoint(config), 'confirmed');
 
         // Create Anchor provider with deployer wallet (manual wallet object)
         const anchorWallet = {
@@ -118,12 +140,21 @@ export async function POST(request: NextRequest) {
         const incoTokenIdl = JSON.parse(fs.readFileSync(idlPath, 'utf-8'));
         const program = new Program(incoTokenIdl, provider);
 
-        const computeIxs = [
-            ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }),
-            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
-        ];
-
-        const results: { tokenA?: string; tokenB?: string; mintedA?: boolean; mintedB?: boolean } = {};
+        // Compute budget is sized per transaction by the fee planner
+        const speed: FeeSpeed = isFeeSpeed(body.speed) ? body.speed : 'normal';
+        const budgetIxs = async (ixs: TransactionInstruction[]) => computeBudgetInstructions(
+            await planFees({ connection, payer: deployer.publicKey, instructions: ixs, speed })
+        );
+        const simulationIxs = [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS })];
+
+        const results: {
+            tokenA?: string;
+            tokenB?: string;
+            mintedA?: boolean;
+            mintedB?: boolean;
+            signatures: string[]; // every faucet transaction, for the client's activity history
+            mintErrors: string[]; // decoded reasons a mint was skipped
+        } = { signatures: [], mintErrors: [] };
 
         // Find existing accounts
         const accounts = await connection.getProgramAccounts(INCO_TOKEN_PROGRAM_ID, {
@@ -139,8 +170,8 @@ export async function POST(request: NextRequest) {
             const owner = new PublicKey(account.data.slice(40, 72));
             if (!owner.equals(userWallet)) continue;
             const mint = new PublicKey(account.data.slice(8, 40));
-            if (mint.equals(INCO_MINT_A)) tokenAPubkey = pubkey;
-            if (mint.equals(INCO_MINT_B)) tokenBPubkey = pubkey;
+            if (mint.equals(mintA)) tokenAPubkey = pubkey;
+            if (mint.equals(mintB)) tokenBPubkey = pubkey;
         }
 
         // Create accounts if needed
@@ -150,20 +181,20 @@ export async function POST(request: NextRequest) {
                 .initializeAccount()
                 .accounts({
                     account: kp.publicKey,
-                    mint: INCO_MINT_A,
+                    mint: mintA,
                     owner: userWallet,
                     payer: deployer.publicKey,
                 })
                 .instruction();
             const tx = new Transaction();
-            computeIxs.forEach(i => tx.add(i));
-            tx.add(ix);
+            tx.add(...await budgetIxs([ix]), ix);
             const { blockhash } = await connection.getLatestBlockhash();
             tx.recentBlockhash = blockhash;
             tx.feePayer = deployer.publicKey;
             tx.sign(deployer, kp);
             const sig = await connection.sendRawTransaction(tx.serialize());
             await connection.confirmTransaction(sig, 'confirmed');
+            results.signatures.push(sig);
             tokenAPubkey = kp.publicKey;
             createdA = true;
             console.log('[faucet] Created Token A account:', tokenAPubkey.toBase58());
@@ -175,20 +206,20 @@ export async function POST(request: NextRequest) {
                 .initializeAccount()
                 .accounts({
                     account: kp.publicKey,
-                    mint: INCO_MINT_B,
+                    mint: mintB,
                     owner: userWallet,
                     payer: deployer.publicKey,
                 })
                 .instruction();
             const tx = new Transaction();
-            computeIxs.forEach(i => tx.add(i));
-            tx.add(ix);
+            tx.add(...await budgetIxs([ix]), ix);
             const { blockhash } = await connection.getLatestBlockhash();
             tx.recentBlockhash = blockhash;
             tx.feePayer = deployer.publicKey;
             tx.sign(deployer, kp);
             const sig = await connection.sendRawTransaction(tx.serialize());
             await connection.confirmTransaction(sig, 'confirmed');
+            results.signatures.push(sig);
             tokenBPubkey = kp.publicKey;
             createdB = true;
             console.log('[faucet] Created Token B account:', tokenBPubkey.toBase58());
@@ -233,14 +264,14 @@ export async function POST(request: NextRequest) {
                 })
                 .instruction();
             const tx = new Transaction();
-            computeIxs.forEach(i => tx.add(i));
-            tx.add(ix);
+            tx.add(...await budgetIxs([ix]), ix);
             const { blockhash } = await connection.getLatestBlockhash();
             tx.recentBlockhash = blockhash;
             tx.feePayer = deployer.publicKey;
             tx.sign(deployer, kp);
             const sig = await connection.sendRawTransaction(tx.serialize());
             await connection.confirmTransaction(sig, 'confirmed');
+            results.signatures.push(sig);
             console.log('[faucet] Replacement account:', kp.publicKey.toBase58());
             return kp.publicKey;
         }
@@ -248,10 +279,10 @@ export async function POST(request: NextRequest) {
         // Replace corrupted accounts if needed (skip for freshly created accounts —
         // initializeAccount creates an FHE-encrypted zero which has a non-zero handle, that's normal)
         if (!createdA) {
-            tokenAPubkey = await replaceCorruptedAccount(INCO_MINT_A, tokenAPubkey);
+            tokenAPubkey = await replaceCorruptedAccount(mintA, tokenAPubkey);
         }
         if (!createdB) {
-            tokenBPubkey = await replaceCorruptedAccount(INCO_MINT_B, tokenBPubkey);
+            tokenBPubkey = await replaceCorruptedAccount(mintB, tokenBPubkey);
         }
         results.tokenA = tokenAPubkey.toBase58();
         results.tokenB = tokenBPubkey.toBase58();
@@ -266,7 +297,7 @@ export async function POST(request: NextRequest) {
                 const simIx = await program.methods
                     .mintTo(Buffer.from(ciphertext), INPUT_TYPE)
                     .accounts({
-                        mint: INCO_MINT_A,
+                        mint: mintA,
                         account: tokenAPubkey,
                         mintAuthority: deployer.publicKey,
                         incoLightningProgram: INCO_LIGHTNING_PROGRAM_ID,
@@ -275,7 +306,7 @@ export async function POST(request: NextRequest) {
                     .instruction();
 
                 const simTx = new Transaction();
-                computeIxs.forEach(ix => simTx.add(ix));
+                simTx.add(...simulationIxs);
                 simTx.add(simIx);
                 const { blockhash } = await connection.getLatestBlockhash();
                 simTx.recentBlockhash = blockhash;
@@ -283,7 +314,9 @@ export async function POST(request: NextRequest) {
                 simTx.sign(deployer);
 
                 const simulation = await connection.simulateTransaction(simTx, undefined, [tokenAPubkey]);
-                if (simulation.value.err) throw new Error(`Sim failed: ${JSON.stringify(simulation.value.err)}`);
+                if (simulation.value.err) {
+                    throw Object.assign(new Error(`Sim failed: ${JSON.stringify(simulation.value.err)}`), { logs: simulation.value.logs });
+                }
 
                 const simData = Buffer.from(simulation.value.accounts![0]!.data[0], 'base64');
                 const newHandle = extractHandle(simData);
@@ -292,10 +325,10 @@ export async function POST(request: NextRequest) {
                 const [allowancePda] = getAllowancePda(newHandle, userWallet);
 
                 // Step 3: Execute with allowance
-                const tx = await program.methods
+                const mintMethod = program.methods
                     .mintTo(Buffer.from(ciphertext), INPUT_TYPE)
                     .accounts({
-                        mint: INCO_MINT_A,
+                        mint: mintA,
                         account: tokenAPubkey,
                         mintAuthority: deployer.publicKey,
                         incoLightningProgram: INCO_LIGHTNING_PROGRAM_ID,
@@ -304,15 +337,19 @@ export async function POST(request: NextRequest) {
                     .remainingAccounts([
                         { pubkey: allowancePda, isSigner: false, isWritable: true },
                         { pubkey: userWallet, isSigner: false, isWritable: false },
-                    ])
-                    .preInstructions(computeIxs)
+                    ]);
+                const mintIx = await mintMethod.instruction();
+                const tx = await mintMethod
+                    .preInstructions(await budgetIxs([mintIx]))
                     .rpc();
 
                 await connection.confirmTransaction(tx, 'confirmed');
+                results.signatures.push(tx);
                 results.mintedA = true;
                 console.log('[faucet] Minted Token A with allowance:', tx);
             } catch (e: any) {
                 console.error('[faucet] Token A mint failed:', e.message);
+                results.mintErrors.push(`Token A: ${describeError(e, 'inco-token')}`);
             }
         }
 
@@ -325,7 +362,7 @@ export async function POST(request: NextRequest) {
                 const simIx = await program.methods
                     .mintTo(Buffer.from(ciphertext), INPUT_TYPE)
                     .accounts({
-                        mint: INCO_MINT_B,
+                        mint: mintB,
                         account: tokenBPubkey,
                         mintAuthority: deployer.publicKey,
                         incoLightningProgram: INCO_LIGHTNING_PROGRAM_ID,
@@ -334,7 +371,7 @@ export async function POST(request: NextRequest) {
                     .instruction();
 
                 const simTx = new Transaction();
-                computeIxs.forEach(ix => simTx.add(ix));
+                simTx.add(...simulationIxs);
                 simTx.add(simIx);
                 const { blockhash } = await connection.getLatestBlockhash();
                 simTx.recentBlockhash = blockhash;
@@ -342,17 +379,19 @@ export async function POST(request: NextRequest) {
                 simTx.sign(deployer);
 
                 const simulation = await connection.simulateTransaction(simTx, undefined, [tokenBPubkey]);
-                if (simulation.value.err) throw new Error(`Sim failed: ${JSON.stringify(simulation.value.err)}`);
+                if (simulation.value.err) {
+                    throw Object.assign(new Error(`Sim failed: ${JSON.stringify(simulation.value.err)}`), { logs: simulation.value.logs });
+                }
 
                 const simData = Buffer.from(simulation.value.accounts![0]!.data[0], 'base64');
                 const newHandle = extractHandle(simData);
 
                 const [allowancePda] = getAllowancePda(newHandle, userWallet);
 
-                const tx = await program.methods
+                const mintMethod = program.methods
                     .mintTo(Buffer.from(ciphertext), INPUT_TYPE)
                     .accounts({
-                        mint: INCO_MINT_B,
+                        mint: mintB,
                         account: tokenBPubkey,
                         mintAuthority: deployer.publicKey,
                         incoLightningProgram: INCO_LIGHTNING_PROGRAM_ID,
@@ -361,15 +400,19 @@ export async function POST(request: NextRequest) {
                     .remainingAccounts([
                         { pubkey: allowancePda, isSigner: false, isWritable: true },
                         { pubkey: userWallet, isSigner: false, isWritable: false },
-                    ])
-                    .preInstructions(computeIxs)
+                    ]);
+                const mintIx = await mintMethod.instruction();
+                const tx = await mintMethod
+                    .preInstructions(await budgetIxs([mintIx]))
                     .rpc();
 
                 await connection.confirmTransaction(tx, 'confirmed');
+                results.signatures.push(tx);
                 results.mintedB = true;
                 console.log('[faucet] Minted Token B with allowance:', tx);
             } catch (e: any) {
                 console.error('[faucet] Token B mint failed:', e.message);
+                results.mintErrors.push(`Token B: ${describeError(e, 'inco-token')}`);
             }
         }
 
@@ -379,6 +422,7 @@ export async function POST(request: NextRequest) {
         });
     } catch (e: any) {
         console.error('[faucet] Error:', e);
-        return NextResponse.json({ error: e.message }, { status: 500 });
+        const error = decodeError(e, 'inco-token');
+        return NextResponse.json({ error: error.message, code: error.code, action: error.action }, { status: 500 });
     }
 }
@@ -0,0 +1,47 @@
+/**
+ * Indexer Analytics API Route
+ *
+ * GET /api/indexer/analytics
+ * Query: cluster?, pool? (all pools when omitted), interval? ('hour' | 'day'), buckets? (max 90)
+ *
+ * Activity per time bucket, oldest first: swap direction mix, unique traders,
+ * deposits / withdrawals, pool leaf churn and fee tier. Amounts stay encrypted.
+ * Response: { series, interval, syncedAt }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIndexerCluster, syncIndexer } from '@/lib/indexer-store';
+import { ACTIVITY_INTERVALS, poolActivitySeries, type ActivityInterval } from '@/lib/swap-indexer';
+
+const MAX_BUCKETS = 90;
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const { cluster, error } = parseIndexerCluster(params.get('cluster'));
+    if (!cluster) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const interval = params.get('interval') ?? 'hour';
+    // Own keys only: `in` would also accept inherited names such as `toString`
+    if (!Object.hasOwn(ACTIVITY_INTERVALS, interval)) {
+        return NextResponse.json({ error: `Unknown interval: ${interval}` }, { status: 400 });
+    }
+    const buckets = params.has('buckets') ? Number(params.get('buckets')) : undefined;
+    if (buckets !== undefined && (!Number.isInteger(buckets) || buckets < 1 || buckets > MAX_BUCKETS)) {
+        return NextResponse.json({ error: `buckets must be between 1 and ${MAX_BUCKETS}` }, { status: 400 });
+    }
+
+    try {
+        const state = await syncIndexer(cluster);
+        const series = poolActivitySeries(state.events, {
+            pool: params.get('pool') ?? undefined,
+            interval: interval as ActivityInterval,
+            buckets,
+        });
+        return NextResponse.json({ series, interval, syncedAt: state.syncedAt });
+    } catch (e: any) {
+        console.error('[indexer] Analytics query failed:', e);
+        return NextResponse.json({ error: e.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * Indexer Events API Route
+ *
+ * GET /api/indexer/events
+ * Query: cluster?, pool?, kind? ('swap' | 'add_liquidity' | 'remove_liquidity'), signer?, offset?, limit? (max 100)
+ *
+ * Pool events newest first, syncing the index first when it is stale.
+ * Response: { items, total, offset, limit, nextOffset, syncedAt }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIndexerCluster, syncIndexer } from '@/lib/indexer-store';
+import { POOL_EVENT_KINDS, queryPoolEvents, type PoolEventKind } from '@/lib/swap-indexer';
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const { cluster, error } = parseIndexerCluster(params.get('cluster'));
+    if (!cluster) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const kind = params.get('kind');
+    if (kind && !POOL_EVENT_KINDS.includes(kind as PoolEventKind)) {
+        return NextResponse.json({ error: `Unknown event kind: ${kind}` }, { status: 400 });
+    }
+
+    try {
+        const state = await syncIndexer(cluster);
+        const page = queryPoolEvents(state, {
+            pool: params.get('pool') ?? undefined,
+            kind: (kind as PoolEventKind | null) ?? undefined,
+            signer: params.get('signer') ?? undefined,
+            offset: Number(params.get('offset') ?? 0),
+            limit: params.has('limit') ? Number(params.get('limit')) : undefined,
+        });
+        return NextResponse.json({ ...page, syncedAt: state.syncedAt });
+    } catch (e: any) {
+        console.error('[indexer] Events query failed:', e);
+        return NextResponse.json({ error: e.message }, { status: 500 });
+    }
+}
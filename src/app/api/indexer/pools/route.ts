@@ -0,0 +1,34 @@
+/**
+ * Indexer Pools API Route
+ *
+ * GET /api/indexer/pools
+ * Query: cluster?, offset?, limit? (max 100)
+ *
+ * Every pool seen by the indexer with its activity totals, most recently active first.
+ * Response: { items, total, offset, limit, nextOffset, syncedAt }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIndexerCluster, syncIndexer } from '@/lib/indexer-store';
+import { paginate, summarizePools } from '@/lib/swap-indexer';
+
+export async function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+    const { cluster, error } = parseIndexerCluster(params.get('cluster'));
+    if (!cluster) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    try {
+        const state = await syncIndexer(cluster);
+        const page = paginate(
+            summarizePools(state.events),
+            Number(params.get('offset') ?? 0),
+            params.has('limit') ? Number(params.get('limit')) : undefined
+        );
+        return NextResponse.json({ ...page, syncedAt: state.syncedAt });
+    } catch (e: any) {
+        console.error('[indexer] Pools query failed:', e);
+        return NextResponse.json({ error: e.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * Indexer Sync API Route
+ *
+ * POST /api/indexer/sync
+ * Body: { cluster?: 'localnet' | 'devnet' | 'mainnet-beta' }
+ *
+ * Runs a sync now (the query routes only sync when the index is stale).
+ * Response: { events, cursor, backfill, syncedAt } (backfill: gap still being indexed, or null)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseIndexerCluster, syncIndexer } from '@/lib/indexer-store';
+
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => ({}));
+    const { cluster, error } = parseIndexerCluster(body.cluster ?? null);
+    if (!cluster) {
+        return NextResponse.json({ error }, { status: 400 });
+    }
+
+    try {
+        const state = await syncIndexer(cluster, { force: true });
+        return NextResponse.json({
+            events: state.events.length,
+            cursor: state.cursor,
+            backfill: state.backfill,
+            syncedAt: state.syncedAt,
+        });
+    } catch (e: any) {
+        console.error('[indexer] Sync failed:', e);
+        return NextResponse.json({ error: e.message }, { status: 500 });
+    }
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google"; // Using Inter for clean, modern look.
 import "./globals.css";
 import { AppWalletProvider } from "../components/providers/WalletProvider";
+import { ClusterProvider } from "../components/providers/ClusterProvider";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -18,9 +19,11 @@ export default function RootLayout({
     return (
         <html lang="en" className="dark">
             <body className={inter.className}>
-                <AppWalletProvider>
-                    {children}
-                </AppWalletProvider>
+                <ClusterProvider>
+                    <AppWalletProvider>
+                        {children}
+                    </AppWalletProvider>
+                </ClusterProvider>
             </body>
         </html>
     );
@@ -0,0 +1,533 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { AddressLookupTableAccount, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { Shield, ArrowLeft, Loader2, ExternalLink, Plus, Minus, Layers, AlertCircle, Table2 } from 'lucide-react';
+import {
+    initializePool,
+    addLiquidity,
+    removeLiquidity,
+    encryptAmount,
+    invalidatePoolState,
+    waitForPoolUpdate,
+    fetchPoolState,
+} from '@/lib/swap-client';
+import { listPools, type PoolEntry } from '@/lib/pool-registry';
+import { formatFeeBps } from '@/lib/pool-state';
+import { parseBalance } from '@/lib/inco-balance';
+import { submitTransaction, describeSubmissionEvent } from '@/lib/tx-submitter';
+import {
+    findPoolLookupTable,
+    checkPoolLookupTable,
+    refreshPoolLookupTable,
+    resolveLookupTables,
+    buildCreatePoolLookupTable,
+    buildExtendPoolLookupTable,
+    type LookupTableCoverage,
+} from '@/lib/lookup-tables';
+import { DEFAULT_POOL_FEE_BPS } from '@/lib/solana/constants';
+import { explorerTxUrl } from '@/lib/cluster-config';
+import { describeError } from '@/lib/swap-errors';
+import { ClusterSwitcher } from '@/components/ClusterSwitcher';
+
+const WalletMultiButton = dynamic(
+    () => import('@solana/wallet-adapter-react-ui').then(mod => mod.WalletMultiButton),
+    { ssr: false, loading: () => <div className="h-10 w-32 bg-secondary rounded-lg animate-pulse" /> }
+);
+
+type LiquidityMode = 'add' | 'remove';
+
+interface StepResult {
+    label: string;
+    signature: string;
+    leafIndex: number | null;
+    accountHash: string | null;
+    // Shown instead of the pool leaf for steps that do not touch the pool account
+    detail?: string;
+}
+
+export default function OperatorPage() {
+    return (
+        <main className="min-h-screen flex flex-col items-center p-4 relative overflow-hidden">
+            {/* Header */}
+            <header className="w-full p-6 flex justify-between items-center z-10">
+                <div className="flex items-center gap-3">
+                    <Link href="/" className="text-muted-foreground hover:text-foreground transition-colors">
+                        <ArrowLeft className="w-5 h-5" />
+                    </Link>
+                    <Shield className="w-8 h-8 text-primary" />
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight">
+                            Velvet<span className="text-primary">Swap</span>
+                        </h1>
+                        <p className="text-xs text-muted-foreground -mt-0.5">Pool Operator</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <ClusterSwitcher />
+                    <WalletMultiButton />
+                </div>
+            </header>
+
+            <div className="relative z-10 w-full max-w-2xl mt-4">
+                <div className="glass rounded-3xl p-1.5 velvet-glow">
+                    <OperatorConsole />
+                </div>
+            </div>
+        </main>
+    );
+}
+
+function OperatorConsole() {
+    const { publicKey, connected, signTransaction } = useWallet();
+    const { connection } = useConnection();
+
+    const [pools, setPools] = useState<PoolEntry[]>([]);
+    const [poolsLoading, setPoolsLoading] = useState(false);
+    const [selected, setSelected] = useState<PoolEntry | null>(null);
+
+    // Initialize form
+    const [newMintA, setNewMintA] = useState('');
+    const [newMintB, setNewMintB] = useState('');
+    const [newFeeBps, setNewFeeBps] = useState(String(DEFAULT_POOL_FEE_BPS));
+
+    // Liquidity form
+    const [mode, setMode] = useState<LiquidityMode>('add');
+    const [amountA, setAmountA] = useState('');
+    const [amountB, setAmountB] = useState('');
+
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [results, setResults] = useState<StepResult[]>([]);
+
+    // Lookup table of the selected pool
+    const [lookupTable, setLookupTable] = useState<AddressLookupTableAccount | null>(null);
+    const [coverage, setCoverage] = useState<LookupTableCoverage | null>(null);
+    const [tableLoading, setTableLoading] = useState(false);
+
+    // Only pools whose authority is the connected wallet are operable
+    const loadPools = useCallback(async () => {
+        if (!publicKey) {
+            setPools([]);
+            return;
+        }
+        setPoolsLoading(true);
+        try {
+            const all = await listPools(connection);
+            const owned = all.filter(p => p.state.authority.equals(publicKey));
+            setPools(owned);
+            setSelected(prev => owned.find(p => prev && p.address.equals(prev.address)) ?? owned[0] ?? null);
+        } catch (e: any) {
+            console.error('Failed to load pools:', e);
+            setError(`Failed to load pools: ${e.message}`);
+        } finally {
+            setPoolsLoading(false);
+        }
+    }, [connection, publicKey]);
+
+    useEffect(() => {
+        loadPools();
+    }, [loadPools]);
+
+    const loadLookupTable = useCallback(async (pool: PoolEntry | null, force = false) => {
+        setLookupTable(null);
+        setCoverage(null);
+        if (!pool) return;
+        setTableLoading(true);
+        try {
+            const table = await findPoolLookupTable(connection, pool, { force });
+            setLookupTable(table);
+            if (table) setCoverage(await checkPoolLookupTable(pool, table));
+        } catch (e: any) {
+            console.warn('Failed to load lookup table:', e);
+        } finally {
+            setTableLoading(false);
+        }
+    }, [connection]);
+
+    useEffect(() => {
+        loadLookupTable(selected);
+    }, [selected, loadLookupTable]);
+
+    // Sign and send through the shared submitter (fresh blockhash, rebroadcast, block-height confirmation)
+    const signAndSend = async (tx: Transaction | VersionedTransaction): Promise<string> => {
+        if (!signTransaction || !publicKey) throw new Error('Wallet not connected');
+        return submitTransaction({
+            connection,
+            transaction: tx,
+            feePayer: publicKey,
+            signTransaction,
+            onEvent: (event) => setStatus(describeSubmissionEvent(event)),
+        });
+    };
+
+    const runStep = async (label: string, fn: () => Promise<StepResult>) => {
+        setBusy(true);
+        setError(null);
+        setStatus(`${label}...`);
+        try {
+            const result = await fn();
+            setResults(prev => [result, ...prev]);
+            setStatus(`${label} confirmed`);
+            await loadPools();
+        } catch (e: any) {
+            console.error(`${label} failed:`, e);
+            setError(`${label} failed: ${describeError(e)}`);
+            setStatus(null);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleInitialize = () => runStep('Initialize pool', async () => {
+        if (!publicKey || !signTransaction) throw new Error('Wallet not connected');
+
+        let mintA: PublicKey;
+        let mintB: PublicKey;
+        try {
+            mintA = new PublicKey(newMintA.trim());
+            mintB = new PublicKey(newMintB.trim());
+        } catch {
+            throw new Error('Invalid mint address');
+        }
+        if (mintA.equals(mintB)) throw new Error('Mints must differ');
+
+        const feeBps = Number(newFeeBps);
+        // 10000 bps would take the whole input and leave nothing to swap
+        if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps >= 10_000) {
+            throw new Error('Fee must be an integer from 0 to 9999 bps');
+        }
+
+        const { transaction } = await initializePool({
+            connection,
+            wallet: { publicKey, signTransaction },
+            mintA,
+            mintB,
+            feeBps,
+        });
+        const signature = await signAndSend(transaction);
+
+        setStatus('Waiting for indexer...');
+        const state = await waitForPoolUpdate(mintA, mintB, null);
+        return {
+            label: `Initialized pool (${formatFeeBps(feeBps)} fee)`,
+            signature,
+            leafIndex: state?.leafIndex ?? null,
+            accountHash: state?.accountHash.toString() ?? null,
+        };
+    });
+
+    const handleLiquidity = () => runStep(mode === 'add' ? 'Add liquidity' : 'Remove liquidity', async () => {
+        if (!publicKey || !signTransaction) throw new Error('Wallet not connected');
+        if (!selected) throw new Error('Select a pool first');
+        if (!selected.state.authority.equals(publicKey)) {
+            throw new Error('Connected wallet is not the pool authority');
+        }
+
+        const { mintA, mintB } = selected.state;
+        const rawA = parseBalance(amountA, selected.tokenA.decimals) ?? 0n;
+        const rawB = parseBalance(amountB, selected.tokenB.decimals) ?? 0n;
+        if (rawA <= 0n && rawB <= 0n) throw new Error('Enter an amount');
+
+        const before = await fetchPoolState(mintA, mintB, { force: true });
+
+        setStatus('Encrypting amounts...');
+        const amountACiphertext = await encryptAmount(rawA);
+        const amountBCiphertext = await encryptAmount(rawB);
+
+        const wallet = { publicKey, signTransaction };
+        const tx = mode === 'add'
+            ? await addLiquidity({ connection, wallet, mintA, mintB, amountACiphertext, amountBCiphertext })
+            : await removeLiquidity({
+                connection, wallet, mintA, mintB, amountACiphertext, amountBCiphertext,
+                lookupTables: await resolveLookupTables(connection, [selected]),
+            });
+
+        setStatus('Please sign the transaction...');
+        const signature = await signAndSend(tx);
+        invalidatePoolState(mintA, mintB);
+
+        setStatus('Waiting for updated pool leaf...');
+        const state = await waitForPoolUpdate(mintA, mintB, before?.accountHash ?? null);
+        setAmountA('');
+        setAmountB('');
+        return {
+            label: `${mode === 'add' ? 'Added' : 'Removed'} ${amountA || '0'} ${selected.tokenA.symbol} / ${amountB || '0'} ${selected.tokenB.symbol}`,
+            signature,
+            leafIndex: state?.leafIndex ?? null,
+            accountHash: state?.accountHash.toString() ?? null,
+        };
+    });
+
+    // Send create/extend transactions in order, then re-read the table so swaps pick it up
+    const sendLookupTableTransactions = async (pool: PoolEntry, table: PublicKey, transactions: Transaction[]) => {
+        let signature = '';
+        for (let i = 0; i < transactions.length; i++) {
+            setStatus(`Please sign lookup table transaction ${i + 1} of ${transactions.length}...`);
+            signature = await signAndSend(transactions[i]);
+        }
+        const refreshed = await refreshPoolLookupTable(connection, pool, table);
+        setLookupTable(refreshed);
+        if (refreshed) setCoverage(await checkPoolLookupTable(pool, refreshed));
+        return signature;
+    };
+
+    const handleCreateLookupTable = () => runStep('Create lookup table', async () => {
+        if (!publicKey) throw new Error('Wallet not connected');
+        if (!selected) throw new Error('Select a pool first');
+
+        const { lookupTable: table, addresses, transactions } =
+            await buildCreatePoolLookupTable(connection, publicKey, selected);
+        const signature = await sendLookupTableTransactions(selected, table, transactions);
+        return {
+            label: `Created lookup table for ${selected.tokenA.symbol} / ${selected.tokenB.symbol}`,
+            signature,
+            leafIndex: null,
+            accountHash: null,
+            detail: `${table.toBase58().slice(0, 12)}... · ${addresses.length} addresses`,
+        };
+    });
+
+    const handleExtendLookupTable = () => runStep('Extend lookup table', async () => {
+        if (!publicKey) throw new Error('Wallet not connected');
+        if (!selected || !lookupTable) throw new Error('Select a pool with a lookup table first');
+
+        const { missing, transactions } =
+            await buildExtendPoolLookupTable(connection, publicKey, selected, lookupTable);
+        if (transactions.length === 0) throw new Error('Lookup table already covers every swap account');
+
+        const signature = await sendLookupTableTransactions(selected, lookupTable.key, transactions);
+        return {
+            label: `Extended lookup table for ${selected.tokenA.symbol} / ${selected.tokenB.symbol}`,
+            signature,
+            leafIndex: null,
+            accountHash: null,
+            detail: `${missing.length} addresses added`,
+        };
+    });
+
+    if (!connected || !publicKey) {
+        return (
+            <div className="bg-card rounded-[22px] p-6 text-sm text-muted-foreground">
+                Connect the pool authority wallet to manage pools.
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-card rounded-[22px] p-6 space-y-6">
+            {/* Owned pools */}
+            <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                        <Layers className="w-4 h-4 text-primary" />
+                        <span>Your Pools</span>
+                    </div>
+                    {poolsLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                </div>
+                {pools.length === 0 && !poolsLoading ? (
+                    <p className="text-xs text-muted-foreground">
+                        No pools with authority {publicKey.toBase58().slice(0, 8)}...
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {pools.map(pool => (
+                            <button
+                                key={pool.address.toBase58()}
+                                onClick={() => setSelected(pool)}
+                                className={`w-full flex items-center justify-between rounded-lg p-3 text-sm transition-colors ${
+                                    selected?.address.equals(pool.address) ? 'bg-primary/15 text-primary' : 'bg-secondary/50 hover:bg-secondary'
+                                }`}
+                            >
+                                <span className="font-medium">{pool.tokenA.symbol} / {pool.tokenB.symbol}</span>
+                                <span className="text-xs text-muted-foreground">
+                                    {formatFeeBps(pool.state.feeBps)} fee{pool.state.isPaused ? ' · paused' : ''}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            {/* Liquidity */}
+            {selected && (
+                <section className="border-t border-white/5 pt-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => setMode('add')}
+                            className={`flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-colors ${mode === 'add' ? 'bg-primary/15 text-primary' : 'bg-secondary'}`}
+                        >
+                            <Plus className="w-3 h-3" /> Add liquidity
+                        </button>
+                        <button
+                            onClick={() => setMode('remove')}
+                            className={`flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium transition-colors ${mode === 'remove' ? 'bg-primary/15 text-primary' : 'bg-secondary'}`}
+                        >
+                            <Minus className="w-3 h-3" /> Remove liquidity
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <input
+                            type="number"
+                            value={amountA}
+                            onChange={(e) => setAmountA(e.target.value)}
+                            placeholder={`${selected.tokenA.symbol} amount`}
+                            className="bg-secondary/50 rounded-lg px-3 py-2.5 text-sm outline-none"
+                            disabled={busy}
+                        />
+                        <input
+                            type="number"
+                            value={amountB}
+                            onChange={(e) => setAmountB(e.target.value)}
+                            placeholder={`${selected.tokenB.symbol} amount`}
+                            className="bg-secondary/50 rounded-lg px-3 py-2.5 text-sm outline-none"
+                            disabled={busy}
+                        />
+                    </div>
+                    <button
+                        onClick={handleLiquidity}
+                        disabled={busy}
+                        className="w-full py-3 rounded-xl font-semibold text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                    >
+                        {mode === 'add' ? 'Add encrypted liquidity' : 'Remove encrypted liquidity'}
+                    </button>
+                </section>
+            )}
+
+            {/* Lookup table */}
+            {selected && (
+                <section className="border-t border-white/5 pt-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                            <Table2 className="w-4 h-4 text-primary" />
+                            <span>Lookup Table</span>
+                        </div>
+                        <button
+                            onClick={() => loadLookupTable(selected, true)}
+                            disabled={busy || tableLoading}
+                            className="text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                        >
+                            {tableLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Check coverage'}
+                        </button>
+                    </div>
+                    {lookupTable ? (
+                        <div className="text-xs text-muted-foreground space-y-1">
+                            <div>
+                                {lookupTable.key.toBase58().slice(0, 12)}... · {lookupTable.state.addresses.length} addresses
+                            </div>
+                            {coverage && (
+                                coverage.missing.length === 0 ? (
+                                    <div className="text-emerald-400">Covers all {coverage.covered} swap accounts</div>
+                                ) : (
+                                    <div className="text-amber-400">
+                                        Missing {coverage.missing.length} swap account{coverage.missing.length === 1 ? '' : 's'}
+                                    </div>
+                                )
+                            )}
+                        </div>
+                    ) : !tableLoading && (
+                        <p className="text-xs text-muted-foreground">
+                            No pool lookup table; swaps use the shared table from the app config.
+                        </p>
+                    )}
+                    {lookupTable ? (
+                        <button
+                            onClick={handleExtendLookupTable}
+                            disabled={busy || tableLoading || !coverage || coverage.missing.length === 0}
+                            className="w-full py-3 rounded-xl font-semibold text-sm bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                        >
+                            Extend lookup table
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleCreateLookupTable}
+                            disabled={busy || tableLoading}
+                            className="w-full py-3 rounded-xl font-semibold text-sm bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                        >
+                            Create lookup table
+                        </button>
+                    )}
+                </section>
+            )}
+
+            {/* Initialize */}
+            <section className="border-t border-white/5 pt-4 space-y-3">
+                <div className="text-sm font-medium">Initialize Pool</div>
+                <input
+                    value={newMintA}
+                    onChange={(e) => setNewMintA(e.target.value)}
+                    placeholder="Mint A (Inco mint address)"
+                    className="w-full bg-secondary/50 rounded-lg px-3 py-2.5 text-sm outline-none"
+                    disabled={busy}
+                />
+                <input
+                    value={newMintB}
+                    onChange={(e) => setNewMintB(e.target.value)}
+                    placeholder="Mint B (Inco mint address)"
+                    className="w-full bg-secondary/50 rounded-lg px-3 py-2.5 text-sm outline-none"
+                    disabled={busy}
+                />
+                <div className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        value={newFeeBps}
+                        onChange={(e) => setNewFeeBps(e.target.value)}
+                        className="w-28 bg-secondary/50 rounded-lg px-3 py-2.5 text-sm outline-none"
+                        disabled={busy}
+                    />
+                    <span className="text-xs text-muted-foreground">fee bps ({formatFeeBps(Number(newFeeBps) || 0)})</span>
+                </div>
+                <button
+                    onClick={handleInitialize}
+                    disabled={busy || !newMintA || !newMintB}
+                    className="w-full py-3 rounded-xl font-semibold text-sm bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+                >
+                    Initialize pool
+                </button>
+            </section>
+
+            {/* Status */}
+            {(status || error) && (
+                <div className={`rounded-xl p-3 text-sm ${error ? 'status-error' : 'bg-secondary/50'}`}>
+                    <div className="flex items-center gap-2">
+                        {busy && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+                        {error && <AlertCircle className="w-4 h-4 text-red-500" />}
+                        <span>{error || status}</span>
+                    </div>
+                </div>
+            )}
+
+            {/* Results */}
+            {results.length > 0 && (
+                <section className="border-t border-white/5 pt-4 space-y-2">
+                    {results.map(r => (
+                        <div key={r.signature} className="bg-secondary/50 rounded-lg p-3 text-xs space-y-1">
+                            <div className="font-medium text-sm">{r.label}</div>
+                            <div className="text-muted-foreground">
+                                {r.detail ?? (
+                                    <>
+                                        Pool leaf: {r.leafIndex ?? 'pending'}
+                                        {r.accountHash && <> · hash {r.accountHash.slice(0, 12)}...</>}
+                                    </>
+                                )}
+                            </div>
+                            <a
+                                href={explorerTxUrl(r.signature)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1 text-primary hover:text-primary/80"
+                            >
+                                <ExternalLink className="w-3 h-3" />
+                                {r.signature.slice(0, 20)}...
+                            </a>
+                        </div>
+                    ))}
+                </section>
+            )}
+        </div>
+    );
+}
@@ -1,29 +1,67 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { Shield, ArrowDownUp, Lock, ExternalLink, CheckCircle, AlertCircle, Loader2, EyeOff, Zap, Eye, Wallet, KeyRound } from 'lucide-react';
+import { Shield, ArrowDownUp, Lock, ExternalLink, CheckCircle, AlertCircle, Loader2, EyeOff, Eye, Wallet, KeyRound, ChevronDown, Settings } from 'lucide-react';
 import { useConnection } from '@solana/wallet-adapter-react';
-import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
 // Range Protocol compliance is handled in range-compliance.ts
-import { 
-    DEVNET_WSOL_MINT,
-    DEVNET_TEST_USDC_MINT,
-} from '@/lib/solana/constants';
 import {
-    swapExactIn,
-    encryptAmount,
-    computeSwapQuote,
-    fetchPoolState,
-    DEVNET_INCO_MINT_A,
-    DEVNET_INCO_MINT_B,
-    DEVNET_POOL_VAULT_A,
-    DEVNET_POOL_VAULT_B,
+    invalidatePoolState,
 } from '@/lib/swap-client';
 import {
     ensureUserIncoAccounts,
+    findIncoAccountForMint,
 } from '@/lib/inco-account-manager';
+import {
+    listPools,
+    findPool,
+    listPoolTokens,
+    defaultTokens,
+    type PoolEntry,
+    type TokenInfo,
+} from '@/lib/pool-registry';
+import {
+    type PoolReserves,
+} from '@/lib/pool-quote';
+import {
+    DEFAULT_SWAP_SETTINGS,
+    loadSwapSettings,
+    saveSwapSettings,
+    swapDeadline,
+    type SwapSettings,
+} from '@/lib/swap-settings';
+import {
+    findRoute,
+    listReachableTokens,
+    loadRouteReserves,
+    quoteRoute,
+    quoteRouteExactOut,
+    buildRouteTransactions,
+    estimateRouteFeePlan,
+    type RouteFeePlan,
+    type RouteLeg,
+    type RouteQuote,
+} from '@/lib/swap-router';
+import {
+    formatFeeBps,
+} from '@/lib/pool-state';
+import {
+    FEE_SPEEDS,
+    getFeeSpeed,
+    setFeeSpeed,
+    type FeeSpeed,
+} from '@/lib/fee-planner';
+import {
+    submitTransaction,
+    describeSubmissionEvent,
+} from '@/lib/tx-submitter';
+import {
+    snapshotBalanceHandles,
+    verifySwapOutcome,
+} from '@/lib/swap-outcome';
 import {
     checkAddressCompliance,
     formatComplianceStatus,
@@ -32,8 +70,8 @@ import {
 import {
     fetchUserIncoAccounts,
     parseIncoAccountData,
-    decryptBalances,
     formatBalance,
+    parseBalance,
     type IncoAccountInfo,
 } from '@/lib/inco-balance';
 import {
@@ -43,25 +81,54 @@ import {
 import {
     ensureDecryptAccess,
 } from '@/lib/inco-access';
+import {
+    loadHistory,
+    recordHistoryEntry,
+    updateHistoryEntry,
+    rebuildHistoryFromChain,
+    type HistoryEntry,
+} from '@/lib/swap-history';
+import {
+    decryptBalanceSnapshots,
+    loadBalanceSnapshots,
+    buildStatement,
+    downloadStatement,
+    type ExportFormat,
+} from '@/lib/activity-export';
+import { SwapHistory } from '@/components/SwapHistory';
+import { SwapSettingsPanel } from '@/components/SwapSettingsPanel';
+import { QuoteBreakdown } from '@/components/QuoteBreakdown';
+import { ClusterSwitcher } from '@/components/ClusterSwitcher';
+import { explorerTxUrl, type ClusterConfig } from '@/lib/cluster-config';
+import { useClusterConfig } from '@/components/providers/ClusterProvider';
+import { describeError } from '@/lib/swap-errors';
+import { previewTransaction, type SwapPreview } from '@/lib/swap-preview';
+import { SwapPreviewPanel } from '@/components/SwapPreviewPanel';
+import { CompressedSendPanel } from '@/components/CompressedSendPanel';
+import { CompressedPortfolioPanel } from '@/components/CompressedPortfolioPanel';
+import { CompressionPanel } from '@/components/CompressionPanel';
+import { CompressedHoldingsProvider } from '@/components/providers/CompressedHoldingsProvider';
 
 const WalletMultiButton = dynamic(
     () => import('@solana/wallet-adapter-react-ui').then(mod => mod.WalletMultiButton),
     { ssr: false, loading: () => <div className="h-10 w-32 bg-secondary rounded-lg animate-pulse" /> }
 );
 
-type SwapStep = 'idle' | 'authenticating' | 'swapping' | 'complete' | 'error';
+type SwapStep = 'idle' | 'authenticating' | 'previewing' | 'swapping' | 'complete' | 'error';
 
-interface TokenInfo {
-    symbol: string;
-    mint: PublicKey;
-    decimals: number;
-    icon: string;
-}
+// exact_in: "You Pay" is typed; exact_out: "You Receive" is typed and the input is quoted
+type SwapMode = 'exact_in' | 'exact_out';
+
+// Exact decimal-string parsing: these raw amounts are what gets encrypted into the swap
+const toRawAmount = (value: string, decimals: number) => parseBalance(value, decimals) ?? 0n;
 
-const TOKENS: TokenInfo[] = [
-    { symbol: 'SOL', mint: DEVNET_WSOL_MINT, decimals: 9, icon: '◎' },
-    { symbol: 'USDC', mint: DEVNET_TEST_USDC_MINT, decimals: 6, icon: '$' },
-];
+// The cluster config's pool is funded by the faucet; other pools need existing accounts
+const isDevnetPool = (pool: PoolEntry, mints: ClusterConfig['mints']) =>
+    pool.state.mintA.equals(mints.a) && pool.state.mintB.equals(mints.b);
+
+// Decrypted reserves are only usable while they line up with the current route
+const reservesMatchRoute = (route: RouteLeg[], reserves: PoolReserves[]) =>
+    reserves.length === route.length && route.every((leg, i) => reserves[i].poolAddress.equals(leg.pool.address));
 
 export default function Home() {
     return (
@@ -81,10 +148,13 @@ export default function Home() {
                     </div>
                 </div>
                 <div className="flex items-center gap-3">
-                    <div className="hidden sm:flex items-center gap-1 px-3 py-1.5 privacy-badge rounded-full text-xs text-primary">
-                        <Zap className="w-3 h-3" />
-                        <span>Devnet</span>
-                    </div>
+                    <Link href="/analytics" className="hidden sm:block text-xs text-muted-foreground hover:text-foreground transition-colors">
+                        Analytics
+                    </Link>
+                    <Link href="/operator" className="hidden sm:block text-xs text-muted-foreground hover:text-foreground transition-colors">
+                        Operator
+                    </Link>
+                    <ClusterSwitcher />
                     <WalletMultiButton />
                 </div>
             </header>
@@ -124,17 +194,36 @@ export default function Home() {
 function PrivateSwapInterface() {
     const { publicKey, connected, signTransaction, signMessage } = useWallet();
     const { connection } = useConnection();
+    const { mints } = useClusterConfig();
+    const faucetTokens = useMemo(() => defaultTokens(), []);
 
-    const [fromToken, setFromToken] = useState<TokenInfo>(TOKENS[0]);
-    const [toToken, setToToken] = useState<TokenInfo>(TOKENS[1]);
+    const [fromToken, setFromToken] = useState<TokenInfo>(faucetTokens[0]);
+    const [toToken, setToToken] = useState<TokenInfo>(faucetTokens[1]);
     const [amount, setAmount] = useState('');
     const [estimatedOutput, setEstimatedOutput] = useState<string | null>(null);
+    const [swapMode, setSwapMode] = useState<SwapMode>('exact_in');
+    const [receiveAmount, setReceiveAmount] = useState('');
+    const [estimatedInput, setEstimatedInput] = useState<string | null>(null);
+    const [quoteDetails, setQuoteDetails] = useState<RouteQuote | null>(null);
+
+    // Slippage tolerance and deadline (localStorage, read after mount)
+    const [settings, setSettings] = useState<SwapSettings>(DEFAULT_SWAP_SETTINGS);
+    const [settingsOpen, setSettingsOpen] = useState(false);
+
+    useEffect(() => {
+        setSettings(loadSwapSettings());
+    }, []);
     
     const [step, setStep] = useState<SwapStep>('idle');
+
+    // Simulation of the built swap, confirmed by the user before the wallet signs
+    const [swapPreviews, setSwapPreviews] = useState<SwapPreview[] | null>(null);
+    const previewDecision = useRef<((confirmed: boolean) => void) | null>(null);
     const [statusMessage, setStatusMessage] = useState<string | null>(null);
     const [txSignature, setTxSignature] = useState<string | null>(null);
     const [privacyMode, setPrivacyMode] = useState(true);
-    const [poolStatus, setPoolStatus] = useState<'checking' | 'ready' | 'not_found'>('checking');
+    const [pools, setPools] = useState<PoolEntry[]>([]);
+    const [poolsLoading, setPoolsLoading] = useState(true);
     const [demoMode, setDemoMode] = useState(true); // Demo mode for hackathon presentation
     const [complianceResult, setComplianceResult] = useState<ComplianceResult | null>(null);
     const [complianceChecking, setComplianceChecking] = useState(false);
@@ -152,19 +241,82 @@ function PrivateSwapInterface() {
     const [approveStatus, setApproveStatus] = useState<string | null>(null);
     const [approveTx, setApproveTx] = useState<string | null>(null);
 
-    // Check pool status on mount
+    // Pool reserves (decrypted) for every leg of the route, used for quoting
+    const [routeReserves, setRouteReserves] = useState<PoolReserves[] | null>(null);
+    const [reservesLoading, setReservesLoading] = useState(false);
+
+    // Transaction speed (priority fee level)
+    const [feeSpeed, setFeeSpeedState] = useState<FeeSpeed>(getFeeSpeed());
+    const [routeFeePlan, setRouteFeePlan] = useState<RouteFeePlan | null>(null);
+
+    // Activity history (per wallet, localStorage)
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
+    const [historyLoading, setHistoryLoading] = useState(false);
+
+    // Discover pools on mount
     useEffect(() => {
-        const checkPool = async () => {
+        const loadPools = async () => {
             try {
-                const pool = await fetchPoolState(DEVNET_WSOL_MINT, DEVNET_TEST_USDC_MINT);
-                setPoolStatus(pool ? 'ready' : 'not_found');
+                setPools(await listPools(connection));
             } catch (e) {
-                console.warn('Pool check failed, assuming ready:', e);
-                setPoolStatus('ready');
+                console.warn('Pool discovery failed:', e);
+            } finally {
+                setPoolsLoading(false);
             }
         };
-        checkPool();
-    }, []);
+        loadPools();
+    }, [connection]);
+
+    const selectedPool = useMemo(
+        () => findPool(pools, fromToken.mint, toToken.mint),
+        [pools, fromToken, toToken]
+    );
+    const route = useMemo(
+        () => findRoute(pools, fromToken.mint, toToken.mint),
+        [pools, fromToken, toToken]
+    );
+    const poolInfo = selectedPool?.pool.state ?? null;
+    const poolStatus: 'checking' | 'ready' | 'paused' | 'not_found' =
+        poolsLoading ? 'checking' : route ? 'ready' : poolInfo?.isPaused ? 'paused' : 'not_found';
+
+    const fromTokens = pools.length > 0 ? listPoolTokens(pools) : faucetTokens;
+    const toTokens = pools.length > 0
+        ? listReachableTokens(pools, fromToken.mint)
+        : faucetTokens.filter(t => !t.mint.equals(fromToken.mint));
+
+    // The amount the user typed (pay amount for exact-in, receive amount for exact-out)
+    const typedAmount = swapMode === 'exact_in' ? amount : receiveAmount;
+    const hasAmount = toRawAmount(typedAmount, swapMode === 'exact_in' ? fromToken.decimals : toToken.decimals) > 0n;
+    const pricesLoaded = !!route && !!routeReserves && reservesMatchRoute(route, routeReserves);
+
+    // Balance labels only exist for the faucet-funded devnet tokens
+    const balanceLabel = (token: TokenInfo) =>
+        token.mint.equals(mints.a) ? (balances.tokenA || '--')
+        : token.mint.equals(mints.b) ? (balances.tokenB || '--')
+        : '--';
+
+    const syncHistory = async () => {
+        if (!publicKey) return;
+        setHistoryLoading(true);
+        try {
+            setHistory(await rebuildHistoryFromChain(connection, publicKey));
+        } catch (e) {
+            console.warn('History rebuild failed:', e);
+        } finally {
+            setHistoryLoading(false);
+        }
+    };
+
+    // Load activity history when wallet connects; rebuild from chain if nothing is stored
+    useEffect(() => {
+        if (!publicKey) {
+            setHistory([]);
+            return;
+        }
+        const stored = loadHistory(publicKey);
+        setHistory(stored);
+        if (stored.length === 0) syncHistory();
+    }, [publicKey, connection]);
 
     // Check compliance when wallet connects
     useEffect(() => {
@@ -229,46 +381,128 @@ function PrivateSwapInterface() {
         setFromToken(toToken);
         setToToken(temp);
         setEstimatedOutput(null);
+        setEstimatedInput(null);
+    };
+
+    const handlePayChange = (value: string) => {
+        setSwapMode('exact_in');
+        setAmount(value);
+    };
+
+    const handleReceiveChange = (value: string) => {
+        setSwapMode('exact_out');
+        setReceiveAmount(value);
+    };
+
+    // Select pay token; keep the receive token only if a route still reaches it
+    const handleSelectFrom = (token: TokenInfo) => {
+        setFromToken(token);
+        setRouteReserves(null);
+        if (!findRoute(pools, token.mint, toToken.mint)) {
+            const reachable = listReachableTokens(pools, token.mint);
+            if (reachable.length > 0) setToToken(reachable[0]);
+        }
+    };
+
+    const handleSelectTo = (token: TokenInfo) => {
+        setToToken(token);
+        setRouteReserves(null);
     };
 
-    // Calculate estimated output
+    // Priority fee and compute estimate for the route, for the network fee line
     useEffect(() => {
-        if (!amount || parseFloat(amount) <= 0) {
-            setEstimatedOutput(null);
-            return;
+        setRouteFeePlan(null);
+        if (!route) return;
+        let cancelled = false;
+        estimateRouteFeePlan(connection, route, feeSpeed)
+            .then(plan => { if (!cancelled) setRouteFeePlan(plan); })
+            .catch(e => console.warn('Failed to estimate network fee:', e));
+        return () => { cancelled = true; };
+    }, [connection, route, feeSpeed]);
+
+    // Calculate the estimated other side from the last decrypted reserves along the route
+    useEffect(() => {
+        setEstimatedOutput(null);
+        setEstimatedInput(null);
+        setQuoteDetails(null);
+        if (!hasAmount || !route || !routeReserves || !pricesLoaded) return;
+        const feePlan = routeFeePlan ?? undefined;
+
+        if (swapMode === 'exact_in') {
+            const quote = quoteRoute(route, toRawAmount(amount, fromToken.decimals), routeReserves, settings.slippageBps, feePlan);
+            setEstimatedOutput(formatBalance(quote.expectedAmountOut.toString(), toToken.decimals));
+            setQuoteDetails(quote);
+        } else {
+            const quote = quoteRouteExactOut(
+                route,
+                toRawAmount(receiveAmount, toToken.decimals),
+                routeReserves,
+                settings.slippageBps,
+                feePlan
+            );
+            // Zero output means the pools cannot pay the requested amount
+            if (quote.amountOut > 0n) {
+                setEstimatedInput(formatBalance(quote.amountIn.toString(), fromToken.decimals));
+                setQuoteDetails(quote);
+            }
         }
+    }, [amount, receiveAmount, swapMode, settings, hasAmount, pricesLoaded, fromToken, toToken, routeReserves, route, routeFeePlan]);
 
-        const inputAmount = parseFloat(amount);
-        const feeRate = 0.003;
-        const rate = fromToken.symbol === 'SOL' ? 150 : 1/150;
-        const outputAmount = inputAmount * rate * (1 - feeRate);
-        setEstimatedOutput(outputAmount.toFixed(toToken.decimals > 6 ? 6 : toToken.decimals));
-    }, [amount, fromToken, toToken]);
+    // Fetch and decrypt reserves of every pool on the route (signature only needed when handles changed)
+    const loadPoolReserves = async (): Promise<PoolReserves[]> => {
+        if (!publicKey || !signMessage) throw new Error('Wallet not connected');
+        if (!route) throw new Error(`No route for ${fromToken.symbol}/${toToken.symbol}`);
+        setReservesLoading(true);
+        try {
+            const reserves = await loadRouteReserves(route, publicKey, signMessage);
+            setRouteReserves(reserves);
+            return reserves;
+        } finally {
+            setReservesLoading(false);
+        }
+    };
+
+    const handleLoadPrice = async () => {
+        try {
+            await loadPoolReserves();
+        } catch (e: any) {
+            console.error('Failed to load pool price:', e);
+            setStatusMessage(`Failed to load pool price: ${e?.message || 'Unknown error'}`);
+        }
+    };
 
     // Toggle privacy mode
     const togglePrivacy = () => setPrivacyMode(!privacyMode);
 
-    // Sign and send transaction (supports both legacy and V0 versioned transactions)
-    const signAndSend = async (tx: Transaction | VersionedTransaction, conn: Connection = connection): Promise<string> => {
-        if (!signTransaction || !publicKey) throw new Error('Wallet not connected');
+    // Priority fee level used by the fee planner for every transaction
+    const handleFeeSpeed = (speed: FeeSpeed) => {
+        setFeeSpeed(speed);
+        setFeeSpeedState(speed);
+    };
 
-        if (tx instanceof VersionedTransaction) {
-            // V0 transaction — already has blockhash from swap-client
-            const signed = await signTransaction(tx) as VersionedTransaction;
-            const signature = await conn.sendRawTransaction(signed.serialize());
-            await conn.confirmTransaction(signature, 'confirmed');
-            return signature;
-        }
+    const handleSettingsChange = (next: SwapSettings) => setSettings(saveSwapSettings(next));
 
-        // Legacy transaction
-        tx.feePayer = publicKey;
-        const { blockhash } = await conn.getLatestBlockhash();
-        tx.recentBlockhash = blockhash;
+    // Sign and send through the shared submitter (fresh blockhash, rebroadcast, block-height confirmation)
+    const signAndSend = async (tx: Transaction | VersionedTransaction, deadline?: number): Promise<string> => {
+        if (!signTransaction || !publicKey) throw new Error('Wallet not connected');
+        return submitTransaction({
+            connection,
+            transaction: tx,
+            feePayer: publicKey,
+            signTransaction,
+            deadline,
+            onEvent: (event) => setStatusMessage(describeSubmissionEvent(event)),
+        });
+    };
+
+    // Resolves once the user confirms or cancels the previewed swap
+    const awaitPreviewDecision = () => new Promise<boolean>(resolve => {
+        previewDecision.current = resolve;
+    });
 
-        const signed = await signTransaction(tx);
-        const signature = await conn.sendRawTransaction((signed as Transaction).serialize());
-        await conn.confirmTransaction(signature, 'confirmed');
-        return signature;
+    const decidePreview = (confirmed: boolean) => {
+        previewDecision.current?.(confirmed);
+        previewDecision.current = null;
     };
 
     // Private swap flow with Inco Token transfers
@@ -278,15 +512,23 @@ function PrivateSwapInterface() {
             return;
         }
 
-        if (!amount || parseFloat(amount) <= 0) {
+        if (!hasAmount) {
             setStatusMessage('Please enter a valid amount');
             return;
         }
 
-        const inputAmount = Math.floor(parseFloat(amount) * Math.pow(10, fromToken.decimals));
+        if (!route) {
+            setStatusMessage(`No route available for ${fromToken.symbol}/${toToken.symbol}`);
+            return;
+        }
+
+        const rawAmount = swapMode === 'exact_in'
+            ? toRawAmount(amount, fromToken.decimals)
+            : toRawAmount(receiveAmount, toToken.decimals);
 
         try {
             // Step 0: Check compliance with Range Protocol
+            setSwapPreviews(null);
             setStep('authenticating');
             setStatusMessage('Checking compliance with Range Protocol...');
             
@@ -300,76 +542,191 @@ function PrivateSwapInterface() {
                 throw new Error(`Compliance check failed: ${complianceResult.reasoning}`);
             }
 
-            // Step 1: Ensure user has Inco Token accounts
+            // Step 1: Ensure user has Inco Token accounts for every mint on the route
             setStatusMessage('Setting up confidential token accounts...');
-            
-            const { tokenA: userTokenA, tokenB: userTokenB, created } = await ensureUserIncoAccounts(
-                connection,
-                { publicKey, signTransaction },
-                (msg) => setStatusMessage(msg)
-            );
 
-            // Store account addresses for balance display
-            setUserAccounts({ tokenA: userTokenA, tokenB: userTokenB });
-            setBalances({ tokenA: '✓ Active', tokenB: '✓ Active' });
+            const routeAccounts = new Map<string, PublicKey>();
+            if (route.some(leg => isDevnetPool(leg.pool, mints))) {
+                const ensured = await ensureUserIncoAccounts(
+                    connection,
+                    { publicKey, signTransaction },
+                    (msg) => setStatusMessage(msg)
+                );
+                routeAccounts.set(mints.a.toBase58(), ensured.tokenA);
+                routeAccounts.set(mints.b.toBase58(), ensured.tokenB);
+                for (const signature of ensured.faucetSignatures) {
+                    setHistory(recordHistoryEntry(publicKey, { signature, kind: 'faucet', timestamp: Date.now() }));
+                }
+
+                // Store account addresses for balance display
+                setUserAccounts({ tokenA: ensured.tokenA, tokenB: ensured.tokenB });
+                setBalances({ tokenA: '✓ Active', tokenB: '✓ Active' });
 
-            if (created) {
-                setStatusMessage('Token accounts created! Preparing swap...');
+                if (ensured.created) {
+                    setStatusMessage('Token accounts created! Preparing swap...');
+                }
             }
 
-            // Step 2: Compute swap quote
+            const routeTokens = [route[0].tokenIn, ...route.map(leg => leg.tokenOut)];
+            for (const token of routeTokens) {
+                const key = token.mint.toBase58();
+                if (routeAccounts.has(key)) continue;
+                const account = await findIncoAccountForMint(connection, publicKey, token.mint);
+                if (!account) {
+                    throw new Error(`No confidential account for ${token.symbol}`);
+                }
+                routeAccounts.set(key, account);
+            }
+            const userFrom = routeAccounts.get(fromToken.mint.toBase58())!;
+            const userTo = routeAccounts.get(toToken.mint.toBase58())!;
+
+            // Snapshot balance handles so the outcome can be verified after the swap
+            const handlesBefore = await snapshotBalanceHandles(connection, userFrom, userTo);
+
+            // Step 2: Compute swap quote against current reserves of every pool on the route
+            setStatusMessage(route.length > 1 ? `Reading reserves of ${route.length} pools...` : 'Reading pool reserves...');
+            const reserves = await loadPoolReserves();
+
             setStatusMessage('Computing confidential swap quote...');
-            
-            const { amountOut, feeAmount } = computeSwapQuote(
-                BigInt(inputAmount),
-                BigInt(1_000_000_000_000), // Reserve A - in production fetch from pool
-                BigInt(100_000_000_000),   // Reserve B
-                30n // 0.3% fee
-            );
-            
-            // Encrypt amounts using Inco SDK ECIES encryption
-            const amountInCiphertext = await encryptAmount(BigInt(inputAmount));
-            const amountOutCiphertext = await encryptAmount(amountOut);
-            const feeAmountCiphertext = await encryptAmount(feeAmount);
+            // Exact-in encrypts the minimum output at the slippage tolerance;
+            // exact-out sends the requested output with the tolerance as extra input
+            const routeQuote = swapMode === 'exact_in'
+                ? quoteRoute(route, rawAmount, reserves, settings.slippageBps)
+                : quoteRouteExactOut(route, rawAmount, reserves, settings.slippageBps);
+            if (routeQuote.amountOut === 0n) {
+                throw new Error('Pool has insufficient liquidity for this swap.');
+            }
+            const deadline = swapDeadline(settings);
 
             // Step 3: Execute swap with Inco Token transfers
+            // (each leg's amounts are encrypted with Inco SDK ECIES encryption)
             setStep('swapping');
             setStatusMessage('Executing confidential swap with token transfers...');
 
-            const swapTx = await swapExactIn({
+            const transactions = await buildRouteTransactions({
                 connection,
                 wallet: { publicKey, signTransaction },
-                mintA: DEVNET_INCO_MINT_A,
-                mintB: DEVNET_INCO_MINT_B,
-                amountInCiphertext,
-                amountOutCiphertext,
-                feeAmountCiphertext,
-                aToB: fromToken.symbol === 'SOL',
-                userTokenA,
-                userTokenB,
-                poolVaultA: DEVNET_POOL_VAULT_A,
-                poolVaultB: DEVNET_POOL_VAULT_B,
+                routeQuote,
+                userAccounts: routeAccounts,
             });
-            
-            const sig = await signAndSend(swapTx, connection);
-            setTxSignature(sig);
+
+            // Simulate every transaction before the wallet sees it; a failing swap is never signed
+            setStatusMessage('Simulating swap...');
+            const accountLabels = new Map<string, string>();
+            for (const token of routeTokens) {
+                accountLabels.set(routeAccounts.get(token.mint.toBase58())!.toBase58(), `Your ${token.symbol} account`);
+            }
+            for (const { pool } of route) {
+                if (pool.vaultA) accountLabels.set(pool.vaultA.toBase58(), `Pool ${pool.tokenA.symbol} vault`);
+                if (pool.vaultB) accountLabels.set(pool.vaultB.toBase58(), `Pool ${pool.tokenB.symbol} vault`);
+            }
+            const previews: SwapPreview[] = [];
+            for (const tx of transactions) {
+                previews.push(await previewTransaction(connection, tx, publicKey, accountLabels));
+            }
+            setSwapPreviews(previews);
+            const failed = previews.find(preview => preview.error);
+            if (failed?.error) throw failed.error;
+
+            setStep('previewing');
+            setStatusMessage('Review the simulated swap, then sign.');
+            if (!await awaitPreviewDecision()) {
+                setStep('idle');
+                setStatusMessage('Swap cancelled before signing.');
+                setSwapPreviews(null);
+                return;
+            }
+            setStep('swapping');
+            setSwapPreviews(null);
+
+            // Sequenced transactions must land in order: each one spends the previous leg's output
+            const swapSignatures: string[] = [];
+            for (let i = 0; i < transactions.length; i++) {
+                if (transactions.length > 1) {
+                    setStatusMessage(`Executing swap transaction ${i + 1} of ${transactions.length}...`);
+                }
+                swapSignatures.push(await signAndSend(transactions[i], deadline));
+                setTxSignature(swapSignatures[i]);
+            }
+            const swapSignature = swapSignatures[swapSignatures.length - 1];
+            setHistory(recordHistoryEntry(publicKey, {
+                signature: swapSignature,
+                ...(swapSignatures.length > 1 ? { signatures: swapSignatures } : {}),
+                kind: 'swap',
+                timestamp: Date.now(),
+                pool: route[0].pool.address.toBase58(),
+                aToB: route[0].aToB,
+                mintIn: fromToken.mint.toBase58(),
+                mintOut: toToken.mint.toBase58(),
+                ...(route.length > 1 ? { route: route.map(leg => leg.pool.address.toBase58()) } : {}),
+            }));
+            for (const leg of route) {
+                invalidatePoolState(leg.pool.state.mintA, leg.pool.state.mintB);
+            }
+
+            // Step 4: Detect swaps zeroed by the FHE liquidity / k-invariant guard
+            setStatusMessage('Verifying swap outcome...');
+            const outcome = await verifySwapOutcome({
+                connection,
+                userTokenA: userFrom,
+                userTokenB: userTo,
+                before: handlesBefore,
+                walletAddress: publicKey,
+                signMessage,
+            });
+
+            setHistory(updateHistoryEntry(publicKey, swapSignature, outcome.status === 'executed'
+                ? {
+                    outcome: 'executed',
+                    amountIn: (-outcome.deltaA).toString(),
+                    amountOut: outcome.deltaB.toString(),
+                    decryptedAt: Date.now(),
+                }
+                : { outcome: outcome.status }));
+
+            if (outcome.status === 'zeroed') {
+                setStep('error');
+                setStatusMessage('Swap was a no-op: the pool rejected it (insufficient liquidity or price moved). No tokens were transferred.');
+                return;
+            }
 
             setStep('complete');
-            setStatusMessage('Private swap completed! Tokens transferred.');
+            if (outcome.status === 'executed') {
+                // Snapshot was taken as (from, to), so deltaA is the paid side
+                const paid = -outcome.deltaA;
+                const received = outcome.deltaB;
+                if (route.length > 1 && received === 0n) {
+                    setStep('error');
+                    setStatusMessage(
+                        `A later leg of the route was rejected by its pool. Paid ${formatBalance(paid.toString(), fromToken.decimals)} ${fromToken.symbol}; ` +
+                        'the intermediate tokens remain in your confidential accounts.'
+                    );
+                    return;
+                }
+                setStatusMessage(
+                    `Private swap completed! Paid ${formatBalance(paid.toString(), fromToken.decimals)} ${fromToken.symbol}, ` +
+                    `received ${formatBalance(received.toString(), toToken.decimals)} ${toToken.symbol}.`
+                );
+            } else {
+                setStatusMessage('Private swap completed! (Outcome could not be verified.)');
+            }
         } catch (e: any) {
             console.error('Private swap failed:', e);
             setStep('error');
-            setStatusMessage(`Swap failed: ${e?.message || 'Unknown error'}`);
+            setStatusMessage(`Swap failed: ${describeError(e)}`);
         }
     };
 
     // Reset
     const handleReset = () => {
         setStep('idle');
+        setSwapPreviews(null);
         setStatusMessage(null);
         setTxSignature(null);
         setAmount('');
         setEstimatedOutput(null);
+        setReceiveAmount('');
+        setEstimatedInput(null);
     };
 
     // Decrypt balances using Inco SDK attested reveal
@@ -412,7 +769,7 @@ function PrivateSwapInterface() {
 
             // Re-fetch handles directly with confirmed commitment
             // (getProgramAccounts can return stale data after burn(0) changes the handle)
-            const handles: string[] = [];
+            const handles: { account: PublicKey; mint: PublicKey; decimals: number; handle: string }[] = [];
             const mapping: ('a' | 'b')[] = [];
 
             if (accessA && accounts.tokenA && accounts.tokenA.amountHandle !== '0') {
@@ -420,7 +777,7 @@ function PrivateSwapInterface() {
                 if (fresh) {
                     const parsed = parseIncoAccountData(fresh.data as Buffer);
                     if (parsed.amountHandle !== '0') {
-                        handles.push(parsed.amountHandle);
+                        handles.push({ account: accounts.tokenA.pubkey, mint: parsed.mint, decimals: 9, handle: parsed.amountHandle });
                         mapping.push('a');
                         console.log('[decrypt] Token A handle:', parsed.amountHandle);
                     }
@@ -431,7 +788,7 @@ function PrivateSwapInterface() {
                 if (fresh) {
                     const parsed = parseIncoAccountData(fresh.data as Buffer);
                     if (parsed.amountHandle !== '0') {
-                        handles.push(parsed.amountHandle);
+                        handles.push({ account: accounts.tokenB.pubkey, mint: parsed.mint, decimals: 6, handle: parsed.amountHandle });
                         mapping.push('b');
                         console.log('[decrypt] Token B handle:', parsed.amountHandle);
                     }
@@ -458,11 +815,12 @@ function PrivateSwapInterface() {
             }
 
             // Call attested decrypt - requires wallet signature
-            const plaintexts = await decryptBalances(handles, publicKey, signMessage);
+            // (each result is kept as a balance snapshot for statement exports)
+            const snapshots = await decryptBalanceSnapshots(handles, publicKey, signMessage);
             
-            plaintexts.forEach((pt, i) => {
-                if (mapping[i] === 'a') result.tokenA = formatBalance(pt, 9);
-                if (mapping[i] === 'b') result.tokenB = formatBalance(pt, 6);
+            snapshots.forEach((snapshot, i) => {
+                if (mapping[i] === 'a') result.tokenA = snapshot.amount;
+                if (mapping[i] === 'b') result.tokenB = snapshot.amount;
             });
             
             setDecryptedBalances({
@@ -477,6 +835,13 @@ function PrivateSwapInterface() {
         }
     };
 
+    // Export swaps, transfers and decrypted balance snapshots
+    const handleExport = (format: ExportFormat) => {
+        if (!publicKey) return;
+        const statement = buildStatement(publicKey, history, loadBalanceSnapshots(publicKey), fromTokens);
+        downloadStatement(statement, format);
+    };
+
     // Approve pool authority to spend tokens
     const handleApprove = async (tokenType: 'a' | 'b') => {
         if (!publicKey || !signTransaction || !connection) return;
@@ -503,62 +868,86 @@ function PrivateSwapInterface() {
                 (msg) => setApproveStatus(msg),
             );
             setApproveTx(sig);
+            setHistory(recordHistoryEntry(publicKey, {
+                signature: sig,
+                kind: 'approve',
+                timestamp: Date.now(),
+                account: accountPubkey.toBase58(),
+            }));
             setApproveStatus(`Approved ${tokenType === 'a' ? 'SOL' : 'USDC'} allowance!`);
         } catch (e: any) {
             console.error('Approve failed:', e);
-            setApproveStatus(`Approve failed: ${e.message}`);
+            setApproveStatus(`Approve failed: ${describeError(e, 'inco-token')}`);
         } finally {
             setApproveLoading(false);
         }
     };
 
     const isProcessing = !['idle', 'complete', 'error'].includes(step);
-    const canSwap = connected && amount && parseFloat(amount) > 0 && !isProcessing;
+    const canSwap = connected && hasAmount && !isProcessing && poolStatus === 'ready';
 
     return (
         <div className="bg-card rounded-[22px] p-6 space-y-4">
             {/* Header */}
             <div className="flex items-center justify-between mb-2">
                 <h2 className="text-lg font-semibold">Private Swap</h2>
-                <button
-                    onClick={togglePrivacy}
-                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all hover:scale-105 privacy-badge"
-                >
-                    {privacyMode ? (
-                        <>
-                            <EyeOff className="w-3.5 h-3.5 text-primary" />
-                            <span className="text-primary">Hidden</span>
-                        </>
-                    ) : (
-                        <>
-                            <Eye className="w-3.5 h-3.5 text-muted-foreground" />
-                            <span className="text-muted-foreground">Visible</span>
-                        </>
-                    )}
-                </button>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setSettingsOpen(!settingsOpen)}
+                        title="Slippage and deadline"
+                        className={`p-1.5 rounded-full transition-colors ${settingsOpen ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                    >
+                        <Settings className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={togglePrivacy}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all hover:scale-105 privacy-badge"
+                    >
+                        {privacyMode ? (
+                            <>
+                                <EyeOff className="w-3.5 h-3.5 text-primary" />
+                                <span className="text-primary">Hidden</span>
+                            </>
+                        ) : (
+                            <>
+                                <Eye className="w-3.5 h-3.5 text-muted-foreground" />
+                                <span className="text-muted-foreground">Visible</span>
+                            </>
+                        )}
+                    </button>
+                </div>
             </div>
 
+            {/* Slippage and deadline */}
+            {settingsOpen && (
+                <SwapSettingsPanel settings={settings} onChange={handleSettingsChange} disabled={isProcessing} />
+            )}
+
             {/* From Token */}
             <div className="token-input overflow-hidden">
                 <div className="flex items-center justify-between text-sm text-muted-foreground mb-3">
                     <span>You Pay</span>
                     <span className="text-xs">
-                        {balanceLoading ? '...' : (fromToken.symbol === 'SOL' ? (balances.tokenA || '--') : (balances.tokenB || '--'))}
+                        {balanceLoading ? '...' : balanceLabel(fromToken)}
                     </span>
                 </div>
                 <div className="flex items-center gap-3">
                     <input
                         type="number"
-                        value={amount}
-                        onChange={(e) => setAmount(e.target.value)}
+                        value={swapMode === 'exact_in' ? amount : estimatedInput ?? ''}
+                        onChange={(e) => handlePayChange(e.target.value)}
                         placeholder="0.0"
-                        className="flex-1 min-w-0 bg-transparent text-3xl font-semibold outline-none placeholder:text-muted-foreground/30"
+                        className={`flex-1 min-w-0 bg-transparent text-3xl font-semibold outline-none placeholder:text-muted-foreground/30 ${
+                            swapMode === 'exact_out' ? 'text-emerald-400' : ''
+                        }`}
+                        disabled={isProcessing}
+                    />
+                    <TokenSelect
+                        value={fromToken}
+                        tokens={fromTokens}
+                        onChange={handleSelectFrom}
                         disabled={isProcessing}
                     />
-                    <button className="flex-shrink-0 flex items-center gap-2 bg-secondary hover:bg-secondary/80 px-4 py-2.5 rounded-xl font-medium transition-colors">
-                        <span className="text-lg">{fromToken.icon}</span>
-                        <span>{fromToken.symbol}</span>
-                    </button>
                 </div>
             </div>
 
@@ -578,25 +967,41 @@ function PrivateSwapInterface() {
                 <div className="flex items-center justify-between text-sm text-muted-foreground mb-3">
                     <span>You Receive</span>
                     <span className="text-xs">
-                        {balanceLoading ? '...' : (toToken.symbol === 'SOL' ? (balances.tokenA || '--') : (balances.tokenB || '--'))}
+                        {balanceLoading ? '...' : balanceLabel(toToken)}
                     </span>
                 </div>
                 <div className="flex items-center gap-3">
-                    <div className="flex-1 min-w-0 text-3xl font-semibold">
-                        {estimatedOutput ? (
-                            <span className="flex items-center gap-2">
-                                <span className="text-emerald-400">~{estimatedOutput}</span>
-                                {privacyMode && <EyeOff className="w-4 h-4 text-muted-foreground" />}
-                            </span>
-                        ) : (
-                            <span className="text-muted-foreground/30">0.0</span>
-                        )}
-                    </div>
-                    <button className="flex-shrink-0 flex items-center gap-2 bg-secondary hover:bg-secondary/80 px-4 py-2.5 rounded-xl font-medium transition-colors">
-                        <span className="text-lg">{toToken.icon}</span>
-                        <span>{toToken.symbol}</span>
-                    </button>
+                    <input
+                        type="number"
+                        value={swapMode === 'exact_out' ? receiveAmount : estimatedOutput ?? ''}
+                        onChange={(e) => handleReceiveChange(e.target.value)}
+                        placeholder="0.0"
+                        className={`flex-1 min-w-0 bg-transparent text-3xl font-semibold outline-none placeholder:text-muted-foreground/30 ${
+                            swapMode === 'exact_in' ? 'text-emerald-400' : ''
+                        }`}
+                        disabled={isProcessing}
+                    />
+                    {privacyMode && (estimatedOutput || estimatedInput) && <EyeOff className="w-4 h-4 text-muted-foreground" />}
+                    <TokenSelect
+                        value={toToken}
+                        tokens={toTokens}
+                        onChange={handleSelectTo}
+                        disabled={isProcessing}
+                    />
                 </div>
+                {connected && route && hasAmount && !pricesLoaded && (
+                    <button
+                        onClick={handleLoadPrice}
+                        disabled={reservesLoading}
+                        className="mt-2 flex items-center gap-1.5 text-sm font-medium text-primary hover:text-primary/80 transition-colors disabled:opacity-50"
+                    >
+                        {reservesLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                        {reservesLoading ? 'Reading reserves...' : `Load pool price to quote ${swapMode === 'exact_in' ? toToken.symbol : fromToken.symbol}`}
+                    </button>
+                )}
+                {swapMode === 'exact_out' && pricesLoaded && hasAmount && !estimatedInput && (
+                    <p className="mt-2 text-xs text-amber-400">Pool cannot pay this amount</p>
+                )}
             </div>
 
             {/* Compact Status Row */}
@@ -606,12 +1011,21 @@ function PrivateSwapInterface() {
                         <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />
                     ) : poolStatus === 'ready' ? (
                         <div className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
+                    ) : poolStatus === 'paused' ? (
+                        <div className="w-1.5 h-1.5 rounded-full bg-red-500" />
                     ) : (
                         <div className="w-1.5 h-1.5 rounded-full bg-amber-500" />
                     )}
                     <span className="text-muted-foreground">
-                        {poolStatus === 'ready' ? 'Pool active' : poolStatus === 'checking' ? 'Checking...' : 'Initializing'}
+                        {poolStatus === 'ready' ? 'Pool active' : poolStatus === 'paused' ? 'Pool paused' : poolStatus === 'checking' ? 'Checking...' : 'No pool for pair'}
                     </span>
+                    {route && route.length > 1 ? (
+                        <span className="text-muted-foreground/60">
+                            · via {route.slice(1).map(leg => leg.tokenIn.symbol).join(' → ')} ({route.length} hops)
+                        </span>
+                    ) : poolInfo && (
+                        <span className="text-muted-foreground/60">· {formatFeeBps(poolInfo.feeBps)} fee</span>
+                    )}
                 </div>
                 {connected && (
                     <div className="flex items-center gap-1.5">
@@ -633,6 +1047,36 @@ function PrivateSwapInterface() {
                 )}
             </div>
 
+            {/* LP fee, price impact, what the slippage tolerance commits to on-chain, network fee */}
+            {quoteDetails && (
+                <QuoteBreakdown
+                    quote={quoteDetails}
+                    exactOut={swapMode === 'exact_out'}
+                    slippageBps={settings.slippageBps}
+                    tokenIn={fromToken}
+                    tokenOut={toToken}
+                />
+            )}
+
+            {/* Transaction Speed (priority fee level) */}
+            <div className="flex items-center justify-between text-xs px-1">
+                <span className="text-muted-foreground">Transaction speed</span>
+                <div className="flex items-center gap-1 p-0.5 rounded-lg bg-secondary/50">
+                    {FEE_SPEEDS.map(speed => (
+                        <button
+                            key={speed}
+                            onClick={() => handleFeeSpeed(speed)}
+                            disabled={isProcessing}
+                            className={`px-2 py-1 rounded-md capitalize transition-colors ${
+                                feeSpeed === speed ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground'
+                            }`}
+                        >
+                            {speed}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             {/* Status Message */}
             {statusMessage && (
                 <div className={`rounded-xl p-4 text-sm ${
@@ -641,7 +1085,7 @@ function PrivateSwapInterface() {
                     'bg-secondary/50'
                 }`}>
                     <div className="flex items-center gap-3">
-                        {isProcessing && <Loader2 className="w-5 h-5 animate-spin text-primary" />}
+                        {isProcessing && step !== 'previewing' && <Loader2 className="w-5 h-5 animate-spin text-primary" />}
                         {step === 'complete' && <CheckCircle className="w-5 h-5 text-green-500" />}
                         {step === 'error' && <AlertCircle className="w-5 h-5 text-red-500" />}
                         <span className="flex-1 font-medium">{statusMessage}</span>
@@ -657,6 +1101,15 @@ function PrivateSwapInterface() {
                 </div>
             )}
 
+            {/* Simulation preview (confirm to sign, or the reason the swap was blocked) */}
+            {swapPreviews && (
+                <SwapPreviewPanel
+                    previews={swapPreviews}
+                    onConfirm={step === 'previewing' ? () => decidePreview(true) : undefined}
+                    onCancel={step === 'previewing' ? () => decidePreview(false) : undefined}
+                />
+            )}
+
             {/* Swap Button */}
             <button
                 onClick={handlePrivateSwap}
@@ -675,6 +1128,7 @@ function PrivateSwapInterface() {
                     <span className="flex items-center justify-center gap-2">
                         <Loader2 className="w-5 h-5 animate-spin" />
                         {step === 'authenticating' && 'Checking compliance...'}
+                        {step === 'previewing' && 'Review simulation...'}
                         {step === 'swapping' && 'Executing Private Swap...'}
                     </span>
                 ) : (
@@ -688,7 +1142,7 @@ function PrivateSwapInterface() {
             {/* Transaction Link */}
             {txSignature && (
                 <a
-                    href={`https://explorer.solana.com/tx/${txSignature}?cluster=devnet`}
+                    href={explorerTxUrl(txSignature)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex items-center justify-center gap-2 text-sm text-primary hover:text-primary/80 transition-colors py-2"
@@ -772,7 +1226,7 @@ function PrivateSwapInterface() {
                             <span className={approveTx ? 'text-emerald-400' : 'text-muted-foreground'}>{approveStatus}</span>
                             {approveTx && (
                                 <a
-                                    href={`https://explorer.solana.com/tx/${approveTx}?cluster=devnet`}
+                                    href={explorerTxUrl(approveTx)}
                                     target="_blank"
                                     rel="noopener noreferrer"
                                     className="flex items-center gap-1 mt-1 text-primary hover:text-primary/80"
@@ -785,6 +1239,69 @@ function PrivateSwapInterface() {
                     )}
                 </div>
             )}
+
+            {/* Activity History */}
+            {connected && (
+                <SwapHistory
+                    entries={history}
+                    tokens={fromTokens}
+                    loading={historyLoading}
+                    onRebuild={syncHistory}
+                    onExport={handleExport}
+                />
+            )}
+
+            {/* Light compressed tokens */}
+            {connected && (
+                <CompressedHoldingsProvider>
+                    <CompressedPortfolioPanel />
+                    <CompressedSendPanel />
+                    <CompressionPanel />
+                </CompressedHoldingsProvider>
+            )}
+        </div>
+    );
+}
+
+function TokenSelect({
+    value,
+    tokens,
+    onChange,
+    disabled,
+}: {
+    value: TokenInfo;
+    tokens: TokenInfo[];
+    onChange: (token: TokenInfo) => void;
+    disabled?: boolean;
+}) {
+    const [open, setOpen] = useState(false);
+    const selectable = tokens.filter(t => !t.mint.equals(value.mint));
+
+    return (
+        <div className="relative flex-shrink-0">
+            <button
+                onClick={() => setOpen(!open)}
+                disabled={disabled || selectable.length === 0}
+                className="flex items-center gap-2 bg-secondary hover:bg-secondary/80 px-4 py-2.5 rounded-xl font-medium transition-colors"
+            >
+                <span className="text-lg">{value.icon}</span>
+                <span>{value.symbol}</span>
+                {selectable.length > 0 && <ChevronDown className="w-4 h-4 text-muted-foreground" />}
+            </button>
+            {open && (
+                <div className="absolute right-0 mt-2 min-w-full bg-card border border-white/10 rounded-xl p-1 z-20 shadow-lg">
+                    {selectable.map(token => (
+                        <button
+                            key={token.mint.toBase58()}
+                            onClick={() => { onChange(token); setOpen(false); }}
+                            className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm hover:bg-secondary transition-colors"
+                        >
+                            <span>{token.icon}</span>
+                            <span>{token.symbol}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
     );
 }
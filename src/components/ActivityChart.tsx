@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+
+export interface ChartSeries {
+    label: string;
+    color: string; // tailwind background class
+    values: (number | null)[]; // null: no data for the bucket (drawn empty)
+}
+
+/**
+ * Stacked bar chart over time buckets (one bar per bucket, series stacked bottom-up)
+ */
+export function ActivityChart({
+    title,
+    labels,
+    series,
+}: {
+    title: string;
+    labels: string[]; // one per bucket
+    series: ChartSeries[];
+}) {
+    const totals = labels.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0));
+    const max = Math.max(1, ...totals);
+
+    return (
+        <div className="rounded-xl bg-secondary/50 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium">{title}</span>
+                <div className="flex items-center gap-3 text-muted-foreground">
+                    {series.map(s => (
+                        <span key={s.label} className="flex items-center gap-1">
+                            <span className={`w-2 h-2 rounded-sm ${s.color}`} />
+                            {s.label}
+                        </span>
+                    ))}
+                </div>
+            </div>
+            <div className="flex items-end gap-px h-24">
+                {labels.map((label, i) => (
+                    <div
+                        key={label}
+                        title={`${label}: ${series.map(s => `${s.label} ${s.values[i] ?? '—'}`).join(', ')}`}
+                        className="flex-1 h-full flex flex-col-reverse"
+                    >
+                        {series.map(s => (
+                            <div
+                                key={s.label}
+                                className={s.color}
+                                style={{ height: `${((s.values[i] ?? 0) / max) * 100}%` }}
+                            />
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+                <span>{labels[0]}</span>
+                <span>max {max}</span>
+                <span>{labels[labels.length - 1]}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, Zap } from 'lucide-react';
+import {
+    CLUSTER_LABELS,
+    listClusters,
+    setActiveCluster,
+    type Cluster,
+} from '@/lib/cluster-config';
+import { useClusterConfig } from '@/components/providers/ClusterProvider';
+
+export function ClusterSwitcher() {
+    const { cluster: active } = useClusterConfig();
+    const [open, setOpen] = useState(false);
+    const clusters = useMemo(() => listClusters(), []);
+
+    const select = (cluster: Cluster) => {
+        setOpen(false);
+        if (cluster === active) return;
+        setActiveCluster(cluster);
+        // Pools, balances and the wallet connection all belong to the old cluster
+        window.location.reload();
+    };
+
+    return (
+        <div className="relative hidden sm:block">
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-1 px-3 py-1.5 privacy-badge rounded-full text-xs text-primary"
+            >
+                <Zap className="w-3 h-3" />
+                <span>{CLUSTER_LABELS[active]}</span>
+                <ChevronDown className="w-3 h-3" />
+            </button>
+            {open && (
+                <div className="absolute right-0 mt-2 min-w-[10rem] bg-card border border-white/10 rounded-xl p-1 z-20 shadow-lg">
+                    {clusters.map(({ cluster, error }) => (
+                        <button
+                            key={cluster}
+                            onClick={() => select(cluster)}
+                            disabled={!!error}
+                            title={error ?? undefined}
+                            className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs hover:bg-secondary transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                        >
+                            <span>{CLUSTER_LABELS[cluster]}</span>
+                            {cluster === active && <span className="text-primary">●</span>}
+                            {error && <span className="text-muted-foreground">not configured</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
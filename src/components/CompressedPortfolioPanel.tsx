@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { Loader2, Merge, PieChart, RefreshCw } from 'lucide-react';
+import {
+    consolidateCompressedTokens,
+    DEFAULT_MAX_INPUTS,
+    type CompressedHolding,
+} from '@/lib/light-psp-transfer';
+import { formatBalance } from '@/lib/inco-balance';
+import { describeSubmissionEvent } from '@/lib/tx-submitter';
+import { describeError } from '@/lib/swap-errors';
+import { useCompressedHoldings } from '@/components/providers/CompressedHoldingsProvider';
+import { TransactionStatus } from '@/components/TransactionStatus';
+
+// Past this many accounts a single transfer can no longer spend the whole balance
+const CONSOLIDATE_ABOVE = DEFAULT_MAX_INPUTS;
+
+/**
+ * Compressed token balances of the connected wallet grouped by mint (devnet),
+ * with a merge action for balances split across many compressed accounts
+ */
+export function CompressedPortfolioPanel() {
+    const { publicKey, signTransaction } = useWallet();
+    const { rpc, rpcError, holdings, decimals, loading, error: loadError, refresh } = useCompressedHoldings();
+
+    const [consolidating, setConsolidating] = useState<string | null>(null); // mint being merged
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+
+    const handleConsolidate = async (holding: CompressedHolding) => {
+        if (!rpc || !publicKey || !signTransaction || consolidating) return;
+        const mint = holding.mint.toBase58();
+        setConsolidating(mint);
+        setError(null);
+        setSignature(null);
+        setStatus(`Merging ${Math.min(holding.accounts, DEFAULT_MAX_INPUTS)} accounts...`);
+        try {
+            const result = await consolidateCompressedTokens({
+                rpc,
+                owner: publicKey,
+                mint: holding.mint,
+                signTransaction,
+                onEvent: event => setStatus(describeSubmissionEvent(event)),
+            });
+            setSignature(result.signature);
+            setStatus(`Merged ${result.merged} accounts into one.`);
+            await refresh();
+        } catch (e: any) {
+            console.error('Consolidation failed:', e);
+            setError(describeError(e));
+            setStatus(null);
+        } finally {
+            setConsolidating(null);
+        }
+    };
+
+    const totalAccounts = holdings.reduce((sum, h) => sum + h.accounts, 0);
+
+    return (
+        <div className="border-t border-white/5 pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                    <PieChart className="w-4 h-4 text-primary" />
+                    <span>Compressed portfolio</span>
+                </div>
+                <button
+                    onClick={refresh}
+                    disabled={loading || !rpc}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                >
+                    {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                    Refresh
+                </button>
+            </div>
+
+            {rpcError ? (
+                <p className="text-xs text-muted-foreground">{rpcError}</p>
+            ) : holdings.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    {loading ? 'Reading compressed token accounts...' : 'No compressed tokens in this wallet on devnet.'}
+                </p>
+            ) : (
+                <div className="space-y-1.5">
+                    <p className="text-xs text-muted-foreground">
+                        {holdings.length} mint{holdings.length === 1 ? '' : 's'} across {totalAccounts} compressed account{totalAccounts === 1 ? '' : 's'}
+                    </p>
+                    {holdings.map(holding => {
+                        const mint = holding.mint.toBase58();
+                        const mintDecimals = decimals[mint] ?? 0;
+                        const fragmented = holding.accounts > CONSOLIDATE_ABOVE;
+                        return (
+                            <div key={mint} className="rounded-lg bg-secondary/50 p-2.5 text-xs space-y-1">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-mono truncate" title={mint}>{mint.slice(0, 4)}...{mint.slice(-4)}</span>
+                                    <span className="font-medium">{formatBalance(holding.balance.toString(), mintDecimals)}</span>
+                                </div>
+                                <div className="flex items-center justify-between gap-2 text-muted-foreground">
+                                    <span className={fragmented ? 'text-amber-400' : undefined}>
+                                        {holding.accounts} account{holding.accounts === 1 ? '' : 's'}
+                                        {fragmented && ` · one transfer can send ${formatBalance(holding.maxTransferable.toString(), mintDecimals)}`}
+                                    </span>
+                                    {fragmented && (
+                                        <button
+                                            onClick={() => handleConsolidate(holding)}
+                                            disabled={!!consolidating || !signTransaction}
+                                            className="flex items-center gap-1 text-primary hover:text-primary/80 transition-colors disabled:opacity-50"
+                                        >
+                                            {consolidating === mint
+                                                ? <Loader2 className="w-3 h-3 animate-spin" />
+                                                : <Merge className="w-3 h-3" />}
+                                            Consolidate
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <TransactionStatus status={status} error={error ?? loadError} signature={signature} />
+        </div>
+    );
+}
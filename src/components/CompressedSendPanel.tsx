@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey } from '@solana/web3.js';
+import { bn } from '@lightprotocol/stateless.js';
+import { Layers, Loader2, RefreshCw, Send } from 'lucide-react';
+import {
+    DEFAULT_MAX_INPUTS,
+    maxTransferableWith,
+    sendCompressedTokens,
+} from '@/lib/light-psp-transfer';
+import { formatBalance, parseBalance } from '@/lib/inco-balance';
+import { describeSubmissionEvent } from '@/lib/tx-submitter';
+import { describeError } from '@/lib/swap-errors';
+import { useCompressedHoldings } from '@/components/providers/CompressedHoldingsProvider';
+import { TransactionStatus } from '@/components/TransactionStatus';
+
+const MAX_INPUT_OPTIONS = [1, 2, 3, 4, 8];
+
+function parseRecipient(value: string): PublicKey | null {
+    try {
+        return new PublicKey(value.trim());
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Send Light compressed tokens from the connected wallet (devnet, via the Helius RPC)
+ */
+export function CompressedSendPanel() {
+    const { publicKey, signTransaction } = useWallet();
+    const { rpc, rpcError, holdings, decimals, loading, refresh } = useCompressedHoldings();
+
+    const [maxInputs, setMaxInputs] = useState(DEFAULT_MAX_INPUTS);
+    const [mint, setMint] = useState<string>('');
+    const [recipient, setRecipient] = useState('');
+    const [amount, setAmount] = useState('');
+    const [sending, setSending] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+
+    // Keep the selected mint while it is still held, otherwise fall back to the largest holding
+    useEffect(() => {
+        setMint(current => current && holdings.some(h => h.mint.toBase58() === current)
+            ? current
+            : holdings[0]?.mint.toBase58() ?? '');
+    }, [holdings]);
+
+    const holding = holdings.find(h => h.mint.toBase58() === mint) ?? null;
+    const maxTransferable = holding ? maxTransferableWith(holding, maxInputs) : null;
+    const mintDecimals = decimals[mint] ?? 0;
+    const rawAmount = parseBalance(amount, mintDecimals);
+    const recipientKey = parseRecipient(recipient);
+    const overLimit = !!maxTransferable && rawAmount !== null && rawAmount > BigInt(maxTransferable.toString());
+    const overBalance = !!holding && rawAmount !== null && rawAmount > BigInt(holding.balance.toString());
+
+    const canSend = !!rpc && !!publicKey && !!signTransaction && !!holding
+        && rawAmount !== null && !!recipientKey && !overLimit && !sending;
+
+    const handleSend = async () => {
+        if (!canSend || !rpc || !publicKey || !signTransaction || !holding || rawAmount === null || !recipientKey) return;
+        setSending(true);
+        setError(null);
+        setSignature(null);
+        setStatus('Selecting inputs and fetching validity proof...');
+        try {
+            const result = await sendCompressedTokens({
+                rpc,
+                owner: publicKey,
+                mint: holding.mint,
+                recipient: recipientKey,
+                amount: bn(rawAmount.toString()),
+                maxInputs,
+                signTransaction,
+                onEvent: event => setStatus(describeSubmissionEvent(event)),
+            });
+            setSignature(result.signature);
+            setStatus(`Sent using ${result.bundle.inputAccounts.length} input account${result.bundle.inputAccounts.length === 1 ? '' : 's'}.`);
+            setAmount('');
+            await refresh();
+        } catch (e: any) {
+            console.error('Compressed transfer failed:', e);
+            setError(describeError(e));
+            setStatus(null);
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const format = (value: { toString(): string }) => formatBalance(value.toString(), mintDecimals);
+
+    return (
+        <div className="border-t border-white/5 pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                    <Layers className="w-4 h-4 text-primary" />
+                    <span>Send compressed tokens</span>
+                </div>
+                <button
+                    onClick={refresh}
+                    disabled={loading || !rpc}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                >
+                    {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                    Refresh
+                </button>
+            </div>
+
+            {rpcError ? (
+                <p className="text-xs text-muted-foreground">{rpcError}</p>
+            ) : holdings.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    {loading ? 'Reading compressed token accounts...' : 'No compressed tokens in this wallet on devnet.'}
+                </p>
+            ) : (
+                <div className="space-y-2 text-xs">
+                    <select
+                        value={mint}
+                        onChange={e => setMint(e.target.value)}
+                        disabled={sending}
+                        className="w-full bg-secondary rounded-lg px-3 py-2 font-mono outline-none"
+                    >
+                        {holdings.map(h => (
+                            <option key={h.mint.toBase58()} value={h.mint.toBase58()}>
+                                {h.mint.toBase58().slice(0, 8)}... · {formatBalance(h.balance.toString(), decimals[h.mint.toBase58()] ?? 0)}
+                            </option>
+                        ))}
+                    </select>
+
+                    <input
+                        value={recipient}
+                        onChange={e => setRecipient(e.target.value)}
+                        placeholder="Recipient address"
+                        disabled={sending}
+                        className="w-full bg-secondary rounded-lg px-3 py-2 font-mono outline-none placeholder:text-muted-foreground"
+                    />
+                    <div className="flex gap-2">
+                        <input
+                            value={amount}
+                            onChange={e => setAmount(e.target.value)}
+                            placeholder="Amount"
+                            inputMode="decimal"
+                            disabled={sending}
+                            className="flex-1 min-w-0 bg-secondary rounded-lg px-3 py-2 outline-none placeholder:text-muted-foreground"
+                        />
+                        {maxTransferable && (
+                            <button
+                                onClick={() => setAmount(format(maxTransferable))}
+                                disabled={sending}
+                                className="px-3 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                            >
+                                Max
+                            </button>
+                        )}
+                    </div>
+
+                    {holding && maxTransferable && (
+                        <div className="space-y-0.5 text-muted-foreground">
+                            <div className="flex justify-between">
+                                <span>Balance</span>
+                                <span>{format(holding.balance)} in {holding.accounts} account{holding.accounts === 1 ? '' : 's'}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                                <span>Max inputs per transfer</span>
+                                <select
+                                    value={maxInputs}
+                                    onChange={e => setMaxInputs(Number(e.target.value))}
+                                    disabled={sending}
+                                    className="bg-secondary rounded px-1.5 py-0.5 outline-none"
+                                >
+                                    {MAX_INPUT_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </div>
+                            <div className="flex justify-between">
+                                <span>Sendable in one transfer</span>
+                                <span>{format(maxTransferable)}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {recipient && !recipientKey && <p className="text-red-400">Recipient is not a valid address.</p>}
+                    {overLimit && (
+                        <p className="text-amber-400">
+                            {overBalance
+                                ? 'Amount exceeds your compressed balance.'
+                                : `Amount needs more than ${maxInputs} input accounts. Send it in parts or raise the input limit.`}
+                        </p>
+                    )}
+
+                    <button
+                        onClick={handleSend}
+                        disabled={!canSend}
+                        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                    >
+                        {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                        Send
+                    </button>
+                </div>
+            )}
+
+            <TransactionStatus status={status} error={error} signature={signature} />
+        </div>
+    );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey } from '@solana/web3.js';
+import { bn } from '@lightprotocol/stateless.js';
+import { ArrowDownToLine, ArrowUpFromLine, Loader2, RefreshCw } from 'lucide-react';
+import { fetchSplMintDecimals } from '@/lib/light-psp-transfer';
+import {
+    compressSplTokens,
+    decompressTokens,
+    fetchSplTokenAccounts,
+    getTokenPoolStatus,
+    registerTokenPool,
+    type TokenPoolStatus,
+} from '@/lib/light-compression';
+import { formatBalance, parseBalance } from '@/lib/inco-balance';
+import { describeSubmissionEvent, type SubmissionEvent } from '@/lib/tx-submitter';
+import { describeError } from '@/lib/swap-errors';
+import { useCompressedHoldings } from '@/components/providers/CompressedHoldingsProvider';
+import { TransactionStatus } from '@/components/TransactionStatus';
+
+type Direction = 'compress' | 'decompress';
+
+interface MintBalances {
+    decimals: number;
+    spl: bigint;
+    largestSplAccount: bigint; // compress spends from one SPL account
+    pool: TokenPoolStatus;
+}
+
+function parseMint(value: string): PublicKey | null {
+    try {
+        return new PublicKey(value.trim());
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Move a mint's tokens between the wallet's SPL token accounts and Light compressed accounts (devnet)
+ */
+export function CompressionPanel() {
+    const { publicKey, signTransaction } = useWallet();
+    const { rpc, rpcError, holdings, loading: holdingsLoading, refresh: refreshHoldings } = useCompressedHoldings();
+
+    const [direction, setDirection] = useState<Direction>('compress');
+    const [mintInput, setMintInput] = useState('');
+    const [amount, setAmount] = useState('');
+    const [balances, setBalances] = useState<MintBalances | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [signature, setSignature] = useState<string | null>(null);
+
+    const mint = useMemo(() => parseMint(mintInput), [mintInput]);
+
+    const loadBalances = useCallback(async () => {
+        setBalances(null);
+        if (!rpc || !publicKey || !mint) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const [pool, decimals, splAccounts] = await Promise.all([
+                getTokenPoolStatus(rpc, mint),
+                fetchSplMintDecimals(rpc, mint),
+                fetchSplTokenAccounts(rpc, publicKey, mint),
+            ]);
+            setBalances({
+                decimals,
+                spl: splAccounts.reduce((sum, account) => sum + BigInt(account.amount.toString()), 0n),
+                largestSplAccount: BigInt(splAccounts[0]?.amount.toString() ?? '0'),
+                pool,
+            });
+        } catch (e: any) {
+            console.error('Failed to load balances for compression:', e);
+            setError(describeError(e));
+        } finally {
+            setLoading(false);
+        }
+    }, [rpc, publicKey, mint]);
+
+    useEffect(() => {
+        loadBalances();
+    }, [loadBalances]);
+
+    const refresh = () => Promise.all([loadBalances(), refreshHoldings()]);
+
+    // Compressed side comes from the shared holdings, so the other panels' transfers show up here
+    const holding = mint ? holdings.find(h => h.mint.equals(mint)) : undefined;
+    const compressed = BigInt(holding?.balance.toString() ?? '0');
+    const decompressible = BigInt(holding?.maxTransferable.toString() ?? '0'); // at most DEFAULT_MAX_INPUTS accounts
+
+    const rawAmount = balances ? parseBalance(amount, balances.decimals) : null;
+    const available = !balances ? 0n
+        : direction === 'compress' ? balances.largestSplAccount : decompressible;
+    const exceeds = rawAmount !== null && rawAmount > available;
+    const format = (raw: bigint) => formatBalance(raw.toString(), balances?.decimals ?? 0);
+
+    const run = async (label: string, action: () => Promise<{ signature: string; message: string }>) => {
+        setBusy(true);
+        setError(null);
+        setSignature(null);
+        setStatus(label);
+        try {
+            const result = await action();
+            setSignature(result.signature);
+            setStatus(result.message);
+            await refresh();
+        } catch (e: any) {
+            console.error(`${label} failed:`, e);
+            setError(describeError(e));
+            setStatus(null);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRegister = () => {
+        if (!rpc || !publicKey || !signTransaction || !mint) return;
+        run('Registering token pool...', async () => ({
+            signature: await registerTokenPool({
+                rpc,
+                owner: publicKey,
+                mint,
+                signTransaction,
+                onEvent: event => setStatus(describeSubmissionEvent(event)),
+            }),
+            message: 'Token pool registered.',
+        }));
+    };
+
+    const handleSubmit = () => {
+        if (!rpc || !publicKey || !signTransaction || !mint || !balances || rawAmount === null || exceeds) return;
+        const params = {
+            rpc,
+            owner: publicKey,
+            mint,
+            amount: bn(rawAmount.toString()),
+            signTransaction,
+            onEvent: (event: SubmissionEvent) => setStatus(describeSubmissionEvent(event)),
+        };
+
+        if (direction === 'compress') {
+            run('Compressing...', async () => {
+                const result = await compressSplTokens(params);
+                return {
+                    signature: result.signature,
+                    message: `Compressed ${format(rawAmount)}; ${format(BigInt(result.remaining.toString()))} stays in the SPL account.`,
+                };
+            });
+        } else {
+            run('Fetching validity proof...', async () => {
+                const result = await decompressTokens(params);
+                const change = BigInt(result.change.toString());
+                return {
+                    signature: result.signature,
+                    message: `Decompressed ${format(rawAmount)}${change > 0n ? `; ${format(change)} returned as compressed change` : ''}.`,
+                };
+            });
+        }
+    };
+
+    const registered = balances?.pool.registered ?? false;
+
+    return (
+        <div className="border-t border-white/5 pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1 text-sm font-medium">
+                    {(['compress', 'decompress'] as const).map(value => (
+                        <button
+                            key={value}
+                            onClick={() => setDirection(value)}
+                            disabled={busy}
+                            className={`flex items-center gap-1.5 px-2 py-1 rounded-md transition-colors ${
+                                direction === value ? 'bg-primary/20 text-primary' : 'text-muted-foreground hover:text-foreground'
+                            }`}
+                        >
+                            {value === 'compress'
+                                ? <ArrowDownToLine className="w-3.5 h-3.5" />
+                                : <ArrowUpFromLine className="w-3.5 h-3.5" />}
+                            {value === 'compress' ? 'Compress' : 'Decompress'}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={refresh}
+                    disabled={loading || holdingsLoading || !mint || !rpc}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                >
+                    {loading || holdingsLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                    Refresh
+                </button>
+            </div>
+
+            {rpcError ? (
+                <p className="text-xs text-muted-foreground">{rpcError}</p>
+            ) : (
+                <div className="space-y-2 text-xs">
+                    <input
+                        value={mintInput}
+                        onChange={e => setMintInput(e.target.value)}
+                        placeholder="SPL mint address"
+                        disabled={busy}
+                        className="w-full bg-secondary rounded-lg px-3 py-2 font-mono outline-none placeholder:text-muted-foreground"
+                    />
+                    {mintInput && !mint && <p className="text-red-400">Not a valid mint address.</p>}
+
+                    {balances && (
+                        <>
+                            <div className="space-y-0.5 text-muted-foreground">
+                                <div className="flex justify-between">
+                                    <span>SPL balance</span>
+                                    <span>{format(balances.spl)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Compressed balance</span>
+                                    <span>{format(compressed)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Token pool</span>
+                                    <span className={registered ? undefined : 'text-amber-400'}>
+                                        {registered
+                                            ? `${balances.pool.pools.length} pool${balances.pool.pools.length === 1 ? '' : 's'} · ${format(BigInt(balances.pool.poolBalance.toString()))} locked`
+                                            : 'not registered'}
+                                    </span>
+                                </div>
+                            </div>
+
+                            {!registered ? (
+                                <button
+                                    onClick={handleRegister}
+                                    disabled={busy || !signTransaction}
+                                    className="w-full py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-50"
+                                >
+                                    Register token pool
+                                </button>
+                            ) : (
+                                <>
+                                    <div className="flex gap-2">
+                                        <input
+                                            value={amount}
+                                            onChange={e => setAmount(e.target.value)}
+                                            placeholder="Amount"
+                                            inputMode="decimal"
+                                            disabled={busy}
+                                            className="flex-1 min-w-0 bg-secondary rounded-lg px-3 py-2 outline-none placeholder:text-muted-foreground"
+                                        />
+                                        <button
+                                            onClick={() => setAmount(format(available))}
+                                            disabled={busy}
+                                            className="px-3 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                                        >
+                                            Max
+                                        </button>
+                                    </div>
+                                    {exceeds && (
+                                        <p className="text-amber-400">
+                                            {direction === 'compress'
+                                                ? balances.spl >= (rawAmount ?? 0n)
+                                                    ? `One compress spends a single SPL account; the largest holds ${format(balances.largestSplAccount)}.`
+                                                    : 'Amount exceeds your SPL balance.'
+                                                : compressed >= (rawAmount ?? 0n)
+                                                    ? `One decompress can spend ${format(decompressible)}; consolidate your compressed accounts first.`
+                                                    : 'Amount exceeds your compressed balance.'}
+                                        </p>
+                                    )}
+                                    <button
+                                        onClick={handleSubmit}
+                                        disabled={busy || rawAmount === null || exceeds || !signTransaction}
+                                        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                                    >
+                                        {busy && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                                        {direction === 'compress' ? 'Compress' : 'Decompress'}
+                                    </button>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+
+            <TransactionStatus status={status} error={error} signature={signature} />
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { formatBalance } from '@/lib/inco-balance';
+import { formatFeeBps } from '@/lib/pool-state';
+import type { TokenInfo } from '@/lib/pool-registry';
+import type { RouteQuote } from '@/lib/swap-router';
+
+interface QuoteBreakdownProps {
+    quote: RouteQuote;
+    exactOut: boolean;
+    slippageBps: number;
+    tokenIn: TokenInfo;
+    tokenOut: TokenInfo;
+}
+
+const SOL_DECIMALS = 9;
+
+function formatImpact(bps: number): string {
+    return bps < 1 ? '<0.01%' : formatFeeBps(bps);
+}
+
+function impactClass(bps: number): string {
+    if (bps >= 500) return 'text-red-400';
+    if (bps >= 100) return 'text-amber-400';
+    return '';
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="text-right">{children}</span>
+        </div>
+    );
+}
+
+export function QuoteBreakdown({ quote, exactOut, slippageBps, tokenIn, tokenOut }: QuoteBreakdownProps) {
+    const { legs } = quote;
+
+    // Each leg charges its pool's fee in that leg's input token
+    const lpFee = legs
+        .map(({ leg, quote: legQuote }) => `${formatBalance(legQuote.feeAmount.toString(), leg.tokenIn.decimals)} ${leg.tokenIn.symbol}`)
+        .join(' + ');
+    const feeRate = legs.length === 1 ? ` (${formatFeeBps(Number(legs[0].quote.reserves.feeBps))})` : '';
+
+    return (
+        <div className="rounded-xl bg-secondary/30 px-3 py-2 space-y-1.5 text-xs">
+            <Row label="LP fee">{lpFee}{feeRate}</Row>
+            <Row label="Price impact">
+                <span className={impactClass(quote.priceImpactBps)}>{formatImpact(quote.priceImpactBps)}</span>
+            </Row>
+            {exactOut ? (
+                <Row label={`Maximum paid · ${formatFeeBps(slippageBps)} slippage`}>
+                    {formatBalance(quote.amountIn.toString(), tokenIn.decimals)} {tokenIn.symbol}
+                </Row>
+            ) : (
+                <Row label={`Minimum received · ${formatFeeBps(slippageBps)} slippage`}>
+                    {formatBalance(quote.amountOut.toString(), tokenOut.decimals)} {tokenOut.symbol}
+                </Row>
+            )}
+            <Row label="Network fee">
+                {quote.networkFeeLamports === null
+                    ? '—'
+                    : `≈${formatBalance(quote.networkFeeLamports.toString(), SOL_DECIMALS)} SOL`}
+            </Row>
+            {legs.length > 1 && (
+                <div className="pt-1.5 mt-1.5 border-t border-white/5 space-y-1">
+                    {legs.map(({ leg, quote: legQuote }, i) => (
+                        <Row key={leg.pool.address.toBase58()} label={`${i + 1}. ${leg.tokenIn.symbol} → ${leg.tokenOut.symbol}`}>
+                            <span className="text-muted-foreground">
+                                {formatFeeBps(Number(legQuote.reserves.feeBps))} fee · {formatImpact(legQuote.priceImpactBps)} impact
+                            </span>
+                        </Row>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
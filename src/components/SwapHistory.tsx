@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowRightLeft, CheckCircle, Download, Droplets, ExternalLink, History, Loader2, Lock, RefreshCw } from 'lucide-react';
+import { formatBalance } from '@/lib/inco-balance';
+import type { HistoryEntry } from '@/lib/swap-history';
+import type { ExportFormat } from '@/lib/activity-export';
+import { explorerTxUrl } from '@/lib/cluster-config';
+import type { TokenInfo } from '@/lib/pool-registry';
+
+const COLLAPSED_ENTRIES = 5;
+
+function formatTime(timestamp: number): string {
+    if (!timestamp) return 'unknown time';
+    return new Date(timestamp).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+export function SwapHistory({
+    entries,
+    tokens,
+    loading,
+    onRebuild,
+    onExport,
+}: {
+    entries: HistoryEntry[];
+    tokens: TokenInfo[];
+    loading: boolean;
+    onRebuild: () => void;
+    onExport?: (format: ExportFormat) => void;
+}) {
+    const [expanded, setExpanded] = useState(false);
+    const visible = expanded ? entries : entries.slice(0, COLLAPSED_ENTRIES);
+
+    const token = (mint?: string) => tokens.find(t => t.mint.toBase58() === mint);
+    const amount = (raw: string | undefined, mint?: string) => {
+        const info = token(mint);
+        if (raw === undefined) return null;
+        return `${formatBalance(raw, info?.decimals ?? 9)} ${info?.symbol ?? mint?.slice(0, 4) ?? ''}`;
+    };
+
+    const describe = (entry: HistoryEntry): string => {
+        switch (entry.kind) {
+            case 'swap': {
+                const from = token(entry.mintIn)?.symbol ?? entry.mintIn?.slice(0, 4) ?? '?';
+                const to = token(entry.mintOut)?.symbol ?? entry.mintOut?.slice(0, 4) ?? '?';
+                return `Swap ${from} → ${to}${entry.route ? ` (${entry.route.length} hops)` : ''}`;
+            }
+            case 'approve':
+                return 'Approved pool allowance';
+            case 'faucet':
+                return 'Faucet drip';
+        }
+    };
+
+    return (
+        <div className="border-t border-white/5 pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                    <History className="w-4 h-4 text-primary" />
+                    <span>Activity</span>
+                </div>
+                <div className="flex items-center gap-3">
+                    {onExport && (['csv', 'json'] as const).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => onExport(format)}
+                            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                            <Download className="w-3 h-3" />
+                            {format.toUpperCase()}
+                        </button>
+                    ))}
+                    <button
+                        onClick={onRebuild}
+                        disabled={loading}
+                        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                    >
+                        {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                        Sync from chain
+                    </button>
+                </div>
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    {loading ? 'Reading past swaps from chain...' : 'No activity yet.'}
+                </p>
+            ) : (
+                <div className="space-y-1.5">
+                    {visible.map(entry => (
+                        <div key={`${entry.kind}:${entry.signature}`} className="flex items-start gap-2 rounded-lg bg-secondary/50 p-2.5 text-xs">
+                            {entry.kind === 'swap' ? (
+                                <ArrowRightLeft className="w-3.5 h-3.5 mt-0.5 text-primary flex-shrink-0" />
+                            ) : entry.kind === 'approve' ? (
+                                <CheckCircle className="w-3.5 h-3.5 mt-0.5 text-emerald-400 flex-shrink-0" />
+                            ) : (
+                                <Droplets className="w-3.5 h-3.5 mt-0.5 text-blue-400 flex-shrink-0" />
+                            )}
+                            <div className="flex-1 min-w-0 space-y-0.5">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium truncate">{describe(entry)}</span>
+                                    <span className="text-muted-foreground flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                                </div>
+                                {entry.kind === 'swap' && (
+                                    entry.outcome === 'zeroed' ? (
+                                        <div className="text-amber-400">Rejected by pool (no tokens moved)</div>
+                                    ) : entry.amountIn !== undefined && entry.amountOut !== undefined ? (
+                                        <div className="text-muted-foreground">
+                                            {amount(entry.amountIn, entry.mintIn)} → <span className="text-emerald-400">{amount(entry.amountOut, entry.mintOut)}</span>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center gap-1 text-muted-foreground">
+                                            <Lock className="w-3 h-3" /> Amounts encrypted
+                                        </div>
+                                    )
+                                )}
+                                {(entry.signatures ?? [entry.signature]).map((signature, i, all) => (
+                                    <a
+                                        key={signature}
+                                        href={explorerTxUrl(signature)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex items-center gap-1 text-primary hover:text-primary/80"
+                                    >
+                                        <ExternalLink className="w-3 h-3" />
+                                        {all.length > 1 && `${i + 1}/${all.length} `}{signature.slice(0, 16)}...
+                                    </a>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                    {entries.length > COLLAPSED_ENTRIES && (
+                        <button
+                            onClick={() => setExpanded(!expanded)}
+                            className="w-full text-xs text-muted-foreground hover:text-foreground transition-colors py-1"
+                        >
+                            {expanded ? 'Show less' : `Show all ${entries.length}`}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
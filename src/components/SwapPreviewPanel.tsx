@@ -0,0 +1,135 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, Cpu, XCircle } from 'lucide-react';
+import type { SwapPreview } from '@/lib/swap-preview';
+
+function shortAddress(address: string): string {
+    return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+function TransactionPreview({ preview, title }: { preview: SwapPreview; title: string | null }) {
+    const [showAccounts, setShowAccounts] = useState(false);
+    const [showLogs, setShowLogs] = useState(!preview.ok);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-1.5 font-medium">
+                    {preview.ok
+                        ? <CheckCircle className="w-3.5 h-3.5 text-emerald-400" />
+                        : <XCircle className="w-3.5 h-3.5 text-red-400" />}
+                    {title ?? (preview.ok ? 'Simulation succeeded' : 'Simulation failed')}
+                </span>
+                <span className="flex items-center gap-1 text-muted-foreground">
+                    <Cpu className="w-3 h-3" />
+                    {preview.unitsConsumed !== null ? `${preview.unitsConsumed.toLocaleString()} CU` : '— CU'}
+                </span>
+            </div>
+
+            {preview.error && (
+                <div className="flex items-start gap-1.5 text-red-400">
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    <span>{preview.error.message}{preview.error.action ? ` ${preview.error.action}` : ''}</span>
+                </div>
+            )}
+
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">Inco transfers</span>
+                {preview.incoTransfers.length === 0 ? (
+                    <span className={preview.ok ? 'text-amber-400' : 'text-muted-foreground'}>none ran</span>
+                ) : (
+                    <span className="flex items-center gap-1">
+                        {preview.incoTransfers.map((transfer, i) => transfer.ok
+                            ? <CheckCircle key={i} className="w-3.5 h-3.5 text-emerald-400" />
+                            : <XCircle key={i} className="w-3.5 h-3.5 text-red-400" />)}
+                        <span className="text-muted-foreground">
+                            {preview.incoTransfers.filter(t => t.ok).length} of {preview.incoTransfers.length} succeeded
+                        </span>
+                    </span>
+                )}
+            </div>
+
+            <button
+                onClick={() => setShowAccounts(!showAccounts)}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+            >
+                {showAccounts ? 'Hide' : 'Show'} {preview.accounts.length} accounts
+            </button>
+            {showAccounts && (
+                <div className="space-y-0.5 font-mono">
+                    {preview.accounts.map(account => (
+                        <div key={account.address} className="flex items-center justify-between gap-2">
+                            <span className="truncate">{account.label ?? shortAddress(account.address)}</span>
+                            <span className="text-muted-foreground flex-shrink-0">
+                                {account.label && `${shortAddress(account.address)} `}
+                                {account.signer ? 's' : '-'}{account.writable ? 'w' : 'r'}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <button
+                onClick={() => setShowLogs(!showLogs)}
+                className="block text-muted-foreground hover:text-foreground transition-colors"
+            >
+                {showLogs ? 'Hide' : 'Show'} program logs ({preview.logs.length})
+            </button>
+            {showLogs && (
+                <pre className="max-h-48 overflow-auto rounded-md bg-black/30 p-2 text-[10px] leading-relaxed whitespace-pre-wrap break-all">
+                    {preview.logs.join('\n') || 'No logs returned'}
+                </pre>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Simulation results for the transactions of a swap, shown before the wallet signs.
+ * Confirming is only offered when every transaction simulated cleanly.
+ */
+export function SwapPreviewPanel({
+    previews,
+    onConfirm,
+    onCancel,
+}: {
+    previews: SwapPreview[];
+    onConfirm?: () => void;
+    onCancel?: () => void;
+}) {
+    const ok = previews.every(preview => preview.ok);
+
+    return (
+        <div className="rounded-xl bg-secondary/50 p-3 space-y-3 text-xs">
+            {previews.map((preview, i) => (
+                <TransactionPreview
+                    key={i}
+                    preview={preview}
+                    title={previews.length > 1 ? `Transaction ${i + 1} of ${previews.length}` : null}
+                />
+            ))}
+
+            {(onConfirm || onCancel) && (
+                <div className="flex gap-2 pt-1">
+                    {onCancel && (
+                        <button
+                            onClick={onCancel}
+                            className="flex-1 py-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    {onConfirm && ok && (
+                        <button
+                            onClick={onConfirm}
+                            className="flex-1 py-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors"
+                        >
+                            Sign &amp; send
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
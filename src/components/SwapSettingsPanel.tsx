@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useState } from 'react';
+import { formatFeeBps } from '@/lib/pool-state';
+import {
+    SLIPPAGE_PRESETS_BPS,
+    validateSwapSettings,
+    type SwapSettings,
+} from '@/lib/swap-settings';
+
+interface SwapSettingsPanelProps {
+    settings: SwapSettings;
+    onChange: (settings: SwapSettings) => void;
+    disabled?: boolean;
+}
+
+export function SwapSettingsPanel({ settings, onChange, disabled }: SwapSettingsPanelProps) {
+    const [customSlippage, setCustomSlippage] = useState(
+        SLIPPAGE_PRESETS_BPS.includes(settings.slippageBps) ? '' : String(settings.slippageBps / 100)
+    );
+    const [deadlineMinutes, setDeadlineMinutes] = useState(String(settings.deadlineSeconds / 60));
+    const [error, setError] = useState<string | null>(null);
+
+    // Only valid settings reach the parent; the inputs keep whatever was typed
+    const apply = (next: SwapSettings) => {
+        const problem = validateSwapSettings(next);
+        setError(problem);
+        if (!problem) onChange(next);
+    };
+
+    const handlePreset = (bps: number) => {
+        setCustomSlippage('');
+        apply({ ...settings, slippageBps: bps });
+    };
+
+    const handleCustomSlippage = (value: string) => {
+        setCustomSlippage(value);
+        if (value === '') return;
+        apply({ ...settings, slippageBps: Math.round(parseFloat(value) * 100) });
+    };
+
+    const handleDeadline = (value: string) => {
+        setDeadlineMinutes(value);
+        apply({ ...settings, deadlineSeconds: Math.round(parseFloat(value) * 60) });
+    };
+
+    return (
+        <div className="rounded-xl bg-secondary/50 p-3 space-y-3 text-xs">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">Slippage tolerance</span>
+                <div className="flex items-center gap-1">
+                    {SLIPPAGE_PRESETS_BPS.map(bps => (
+                        <button
+                            key={bps}
+                            onClick={() => handlePreset(bps)}
+                            disabled={disabled}
+                            className={`px-2 py-1 rounded-md transition-colors ${
+                                settings.slippageBps === bps && customSlippage === ''
+                                    ? 'bg-primary/20 text-primary'
+                                    : 'text-muted-foreground hover:text-foreground'
+                            }`}
+                        >
+                            {formatFeeBps(bps)}
+                        </button>
+                    ))}
+                    <div className={`flex items-center gap-0.5 px-2 py-1 rounded-md ${customSlippage !== '' ? 'bg-primary/20 text-primary' : ''}`}>
+                        <input
+                            type="number"
+                            value={customSlippage}
+                            onChange={(e) => handleCustomSlippage(e.target.value)}
+                            placeholder="Custom"
+                            className="w-14 bg-transparent outline-none text-right placeholder:text-muted-foreground/50"
+                            disabled={disabled}
+                        />
+                        <span className="text-muted-foreground">%</span>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">Transaction deadline</span>
+                <div className="flex items-center gap-1 px-2 py-1">
+                    <input
+                        type="number"
+                        value={deadlineMinutes}
+                        onChange={(e) => handleDeadline(e.target.value)}
+                        className="w-12 bg-transparent outline-none text-right"
+                        disabled={disabled}
+                    />
+                    <span className="text-muted-foreground">min</span>
+                </div>
+            </div>
+
+            <p className="text-muted-foreground/70 leading-relaxed">
+                The swap pays out exactly its encrypted minimum; if the price moves further, the pool
+                rejects it and nothing is transferred. Exact-output swaps send up to this much extra input.
+            </p>
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, CheckCircle, ExternalLink, Loader2 } from 'lucide-react';
+import { explorerTxUrl, getClusterConfig } from '@/lib/cluster-config';
+
+/**
+ * Progress, failure and explorer link of a Light transaction (the Light RPC is devnet-only)
+ */
+export function TransactionStatus({
+    status,
+    error,
+    signature,
+}: {
+    status: string | null; // spinner until `signature` is set, then a check mark
+    error: string | null;
+    signature: string | null;
+}) {
+    return (
+        <>
+            {status && !error && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {signature ? <CheckCircle className="w-3.5 h-3.5 text-emerald-400" /> : <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    <span>{status}</span>
+                </div>
+            )}
+            {error && (
+                <div className="flex items-start gap-2 text-xs text-red-400">
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+            {signature && (
+                <a
+                    href={explorerTxUrl(signature, getClusterConfig('devnet'))}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs text-primary hover:text-primary/80"
+                >
+                    <ExternalLink className="w-3 h-3" />
+                    View on Explorer
+                </a>
+            )}
+        </>
+    );
+}
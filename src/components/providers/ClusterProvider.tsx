@@ -0,0 +1,29 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { activateCluster, getDefaultCluster, loadStoredCluster, type ClusterConfig } from '@/lib/cluster-config';
+
+const ClusterContext = createContext<ClusterConfig | null>(null);
+
+/**
+ * Active cluster config; only available below ClusterProvider
+ */
+export function useClusterConfig(): ClusterConfig {
+    const config = useContext(ClusterContext);
+    if (!config) throw new Error('useClusterConfig must be used inside ClusterProvider');
+    return config;
+}
+
+export const ClusterProvider = ({ children }: { children: React.ReactNode }) => {
+    const [config, setConfig] = useState<ClusterConfig | null>(null);
+
+    // The header selection lives in localStorage, so it is read after mount;
+    // nothing renders before then and the server HTML never disagrees with the client
+    useEffect(() => {
+        setConfig(activateCluster(loadStoredCluster() ?? getDefaultCluster()));
+    }, []);
+
+    if (!config) return null;
+
+    return <ClusterContext.Provider value={config}>{children}</ClusterContext.Provider>;
+};
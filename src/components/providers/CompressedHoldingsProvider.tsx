@@ -0,0 +1,84 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import type { Rpc } from '@lightprotocol/stateless.js';
+import {
+    createDevnetLightRpc,
+    listCompressedHoldings,
+    resolveHoldingDecimals,
+    type CompressedHolding,
+} from '@/lib/light-psp-transfer';
+import { describeError } from '@/lib/swap-errors';
+
+interface CompressedHoldingsValue {
+    rpc: Rpc | null;
+    rpcError: string | null; // Light RPC not configured
+    holdings: CompressedHolding[];
+    decimals: Record<string, number>; // keyed by base58 mint
+    loading: boolean;
+    error: string | null; // last load failure
+    refresh: () => Promise<void>;
+}
+
+const CompressedHoldingsContext = createContext<CompressedHoldingsValue | null>(null);
+
+/**
+ * Compressed token holdings of the connected wallet; only available below CompressedHoldingsProvider
+ */
+export function useCompressedHoldings(): CompressedHoldingsValue {
+    const value = useContext(CompressedHoldingsContext);
+    if (!value) throw new Error('useCompressedHoldings must be used inside CompressedHoldingsProvider');
+    return value;
+}
+
+/**
+ * One devnet Light RPC and one holdings list for every compressed token panel,
+ * so a transfer, merge or (de)compression in one panel refreshes all of them
+ */
+export const CompressedHoldingsProvider = ({ children }: { children: React.ReactNode }) => {
+    const { publicKey } = useWallet();
+
+    const { rpc, rpcError } = useMemo(() => {
+        try {
+            return { rpc: createDevnetLightRpc(), rpcError: null };
+        } catch (e: any) {
+            return { rpc: null, rpcError: e.message as string };
+        }
+    }, []);
+
+    const [holdings, setHoldings] = useState<CompressedHolding[]>([]);
+    const [decimals, setDecimals] = useState<Record<string, number>>({});
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (!rpc || !publicKey) {
+            setHoldings([]);
+            return;
+        }
+        setLoading(true);
+        setError(null);
+        try {
+            const next = await listCompressedHoldings(rpc, publicKey);
+            setHoldings(next);
+            setDecimals(await resolveHoldingDecimals(rpc, next));
+        } catch (e: any) {
+            console.error('Failed to load compressed token balances:', e);
+            setError(describeError(e));
+        } finally {
+            setLoading(false);
+        }
+    }, [rpc, publicKey]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const value = useMemo(
+        () => ({ rpc, rpcError, holdings, decimals, loading, error, refresh }),
+        [rpc, rpcError, holdings, decimals, loading, error, refresh]
+    );
+
+    return <CompressedHoldingsContext.Provider value={value}>{children}</CompressedHoldingsContext.Provider>;
+};
@@ -1,43 +1,57 @@
 'use client';
 
 import React, { useMemo } from 'react';
-import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import { ConnectionContext, ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
 import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
-import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
+import { PhantomWalletAdapter, SolflareWalletAdapter, UnsafeBurnerWalletAdapter } from '@solana/wallet-adapter-wallets';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
-import { clusterApiUrl } from '@solana/web3.js';
+import { useClusterConfig } from '@/components/providers/ClusterProvider';
+import { isSimulatorEnabled, createSimulatedConnection } from '@/lib/local-simulator';
 
 // Default styles that can be overridden by your app
 import '@solana/wallet-adapter-react-ui/styles.css';
 
 export const AppWalletProvider = ({ children }: { children: React.ReactNode }) => {
-    // The network can be set to 'devnet', 'testnet', or 'mainnet-beta'.
-    const network = WalletAdapterNetwork.Devnet;
-
-    // Use Helius RPC for Light Protocol support
-    // Light Protocol requires Helius RPC for compressed account queries
-    const HELIUS_DEVNET_RPC = 'https://devnet.helius-rpc.com/?api-key=2d8978c6-7067-459f-ae97-7ea035f1a0cb';
-    const endpoint = useMemo(
-        () => process.env.NEXT_PUBLIC_HELIUS_RPC_URL || HELIUS_DEVNET_RPC,
-        []
-    );
+    const config = useClusterConfig();
+
+    // Cluster selected in the header (localnet has no wallet-adapter network; treat it as devnet)
+    const network = config.cluster === 'mainnet-beta' ? WalletAdapterNetwork.Mainnet : WalletAdapterNetwork.Devnet;
+
+    // Endpoint comes from the cluster config
+    // (on devnet this is Helius, which Light Protocol needs for compressed account queries)
+    const endpoint = config.rpcEndpoint;
 
     const wallets = useMemo(
         () => [
             new PhantomWalletAdapter(),
             new SolflareWalletAdapter(),
             // Backpack is often auto-detected or compliant with standard adapters
+            // Offline simulator: a throwaway keypair signs (nothing leaves the browser)
+            ...(isSimulatorEnabled() ? [new UnsafeBurnerWalletAdapter()] : []),
         ],
         [network]
     );
 
+    const walletTree = (
+        <WalletProvider wallets={wallets} autoConnect>
+            <WalletModalProvider>
+                {children}
+            </WalletModalProvider>
+        </WalletProvider>
+    );
+
+    // Offline simulator replaces the RPC connection
+    const simulatedConnection = useMemo(
+        () => (isSimulatorEnabled() ? { connection: createSimulatedConnection() } : null),
+        []
+    );
+    if (simulatedConnection) {
+        return <ConnectionContext.Provider value={simulatedConnection}>{walletTree}</ConnectionContext.Provider>;
+    }
+
     return (
         <ConnectionProvider endpoint={endpoint}>
-            <WalletProvider wallets={wallets} autoConnect>
-                <WalletModalProvider>
-                    {children}
-                </WalletModalProvider>
-            </WalletProvider>
+            {walletTree}
         </ConnectionProvider>
     );
 };
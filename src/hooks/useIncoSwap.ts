@@ -4,36 +4,52 @@
  * React hook for the full swap flow:
  * 1. User connects wallet
  * 2. Check/create IncoAccounts automatically
- * 3. Execute swap with encrypted amounts
+ * 3. Execute swap with encrypted amounts; the simulated transaction is held in
+ *    `swapState.preview` until `confirmSwap()` (sign and send) or `cancelSwap()`
  */
 
-import { useState, useCallback } from 'react';
-import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { useState, useCallback, useRef } from 'react';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import {
     prepareSwap,
     ensureUserIncoAccounts,
-    INCO_MINT_A,
-    INCO_MINT_B,
-    POOL_VAULT_A,
-    POOL_VAULT_B,
     type UserIncoAccounts,
 } from '@/lib/inco-account-manager';
 import {
     swapExactIn,
-    encryptAmount,
-    computeSwapQuote,
-    DEVNET_INCO_MINT_A,
-    DEVNET_INCO_MINT_B,
-    DEVNET_POOL_VAULT_A,
-    DEVNET_POOL_VAULT_B,
+    invalidatePoolState,
 } from '@/lib/swap-client';
+import {
+    fetchPoolReserves,
+    quoteExactIn,
+    quoteExactOut,
+    encryptSwapQuote,
+} from '@/lib/pool-quote';
+import {
+    loadSwapSettings,
+    swapDeadline,
+    type SwapSettings,
+} from '@/lib/swap-settings';
+import {
+    submitTransaction,
+    describeSubmissionEvent,
+} from '@/lib/tx-submitter';
+import { describeError } from '@/lib/swap-errors';
+import { previewTransaction, type SwapPreview } from '@/lib/swap-preview';
+import { useClusterConfig } from '@/components/providers/ClusterProvider';
 
 export interface SwapState {
-    status: 'idle' | 'preparing' | 'confirming' | 'signing' | 'sending' | 'success' | 'error';
+    status: 'idle' | 'preparing' | 'confirming' | 'previewing' | 'signing' | 'sending' | 'success' | 'error';
     message: string;
     txSignature?: string;
     error?: string;
+    preview?: SwapPreview; // simulation of the swap transaction, before signing
+}
+
+export interface SwapOptions {
+    exactOut?: boolean; // `amount` is the exact output; the input is quoted
+    settings?: SwapSettings; // slippage and deadline (defaults to the saved settings)
 }
 
 export interface UseIncoSwapResult {
@@ -41,24 +57,38 @@ export interface UseIncoSwapResult {
     userAccounts: UserIncoAccounts | null;
     isReady: boolean;
     prepareAccounts: () => Promise<void>;
-    executeSwap: (amountIn: bigint, aToB: boolean) => Promise<string | null>;
+    executeSwap: (amount: bigint, aToB: boolean, options?: SwapOptions) => Promise<string | null>;
+    confirmSwap: () => void; // sign and send the previewed swap
+    cancelSwap: () => void; // drop the previewed swap; executeSwap resolves to null
     reset: () => void;
 }
 
 export function useIncoSwap(): UseIncoSwapResult {
     const { connection } = useConnection();
     const wallet = useWallet();
+    const { mints, pool } = useClusterConfig(); // faucet-funded pool of the active cluster
     
     const [swapState, setSwapState] = useState<SwapState>({
         status: 'idle',
         message: '',
     });
     const [userAccounts, setUserAccounts] = useState<UserIncoAccounts | null>(null);
+    const previewDecision = useRef<((confirmed: boolean) => void) | null>(null);
 
     const updateStatus = useCallback((status: SwapState['status'], message: string) => {
         setSwapState(prev => ({ ...prev, status, message }));
     }, []);
 
+    // Resolves once the user confirms or cancels the previewed swap
+    const awaitPreviewDecision = useCallback(() => new Promise<boolean>(resolve => {
+        previewDecision.current = resolve;
+    }), []);
+
+    const decidePreview = useCallback((confirmed: boolean) => {
+        previewDecision.current?.(confirmed);
+        previewDecision.current = null;
+    }, []);
+
     /**
      * Prepare user accounts - call this when wallet connects or before first swap
      */
@@ -89,18 +119,19 @@ export function useIncoSwap(): UseIncoSwapResult {
             }
         } catch (error: any) {
             console.error('Failed to prepare accounts:', error);
-            updateStatus('error', `Failed to prepare accounts: ${error.message}`);
+            updateStatus('error', `Failed to prepare accounts: ${describeError(error, 'inco-token')}`);
         }
     }, [connection, wallet, updateStatus]);
 
     /**
      * Execute a swap
-     * @param amountIn - Amount to swap (in base units)
+     * @param amount - Amount to swap (in base units), or to receive with `exactOut`
      * @param aToB - true = swap token A for B, false = swap B for A
      */
     const executeSwap = useCallback(async (
-        amountIn: bigint,
-        aToB: boolean
+        amount: bigint,
+        aToB: boolean,
+        options: SwapOptions = {}
     ): Promise<string | null> => {
         if (!wallet.publicKey || !wallet.signTransaction) {
             updateStatus('error', 'Wallet not connected');
@@ -124,34 +155,39 @@ export function useIncoSwap(): UseIncoSwapResult {
                 accounts = { tokenA, tokenB };
                 setUserAccounts(accounts);
             } catch (error: any) {
-                updateStatus('error', `Account setup failed: ${error.message}`);
+                updateStatus('error', `Account setup failed: ${describeError(error, 'inco-token')}`);
                 return null;
             }
         }
 
         try {
-            updateStatus('confirming', 'Computing swap quote...');
+            setSwapState({ status: 'confirming', message: 'Computing swap quote...' });
 
-            // Compute swap amounts (using estimated reserves for now)
-            // In production, you'd fetch actual encrypted reserves and use attested decryption
-            const estimatedReserveA = 1000000000000n; // 1000 wSOL
-            const estimatedReserveB = 100000000000n;  // 100000 USDC
-            
-            const reserveIn = aToB ? estimatedReserveA : estimatedReserveB;
-            const reserveOut = aToB ? estimatedReserveB : estimatedReserveA;
-            
-            const { amountOut, feeAmount } = computeSwapQuote(amountIn, reserveIn, reserveOut);
+            if (!wallet.signMessage) {
+                throw new Error('Wallet does not support message signing (required to read pool reserves)');
+            }
+
+            // Quote against the pool's decrypted reserves
+            const reserves = await fetchPoolReserves(
+                mints.a,
+                mints.b,
+                wallet.publicKey,
+                wallet.signMessage
+            );
+            const settings = options.settings ?? loadSwapSettings();
+            const quote = options.exactOut
+                ? quoteExactOut(amount, aToB, reserves, settings.slippageBps)
+                : quoteExactIn(amount, aToB, reserves, settings.slippageBps);
+            const deadline = swapDeadline(settings);
 
             console.log('Swap quote:', {
-                amountIn: amountIn.toString(),
-                amountOut: amountOut.toString(),
-                feeAmount: feeAmount.toString(),
+                amountIn: quote.amountIn.toString(),
+                amountOut: quote.amountOut.toString(),
+                feeAmount: quote.feeAmount.toString(),
             });
 
             // Encrypt amounts for on-chain processing
-            const amountInCiphertext = await encryptAmount(amountIn);
-            const amountOutCiphertext = await encryptAmount(amountOut);
-            const feeAmountCiphertext = await encryptAmount(feeAmount);
+            const { amountInCiphertext, amountOutCiphertext, feeAmountCiphertext } = await encryptSwapQuote(quote);
 
             updateStatus('confirming', 'Building transaction...');
 
@@ -162,41 +198,50 @@ export function useIncoSwap(): UseIncoSwapResult {
                     publicKey: wallet.publicKey,
                     signTransaction: wallet.signTransaction,
                 },
-                mintA: DEVNET_INCO_MINT_A,
-                mintB: DEVNET_INCO_MINT_B,
+                mintA: mints.a,
+                mintB: mints.b,
                 amountInCiphertext,
                 amountOutCiphertext,
                 feeAmountCiphertext,
                 aToB,
                 userTokenA: accounts.tokenA!,
                 userTokenB: accounts.tokenB!,
-                poolVaultA: DEVNET_POOL_VAULT_A,
-                poolVaultB: DEVNET_POOL_VAULT_B,
+                poolVaultA: pool.vaultA,
+                poolVaultB: pool.vaultB,
             });
 
-            updateStatus('signing', 'Please sign the transaction...');
+            // Simulate before the wallet is asked to sign; a failing swap never reaches it
+            updateStatus('confirming', 'Simulating transaction...');
+            const preview = await previewTransaction(connection, tx, wallet.publicKey, new Map([
+                [accounts.tokenA!.toBase58(), 'Your token A account'],
+                [accounts.tokenB!.toBase58(), 'Your token B account'],
+                [pool.vaultA.toBase58(), 'Pool vault A'],
+                [pool.vaultB.toBase58(), 'Pool vault B'],
+            ]));
+            setSwapState(prev => ({ ...prev, preview }));
+            if (preview.error) throw preview.error;
 
-            // Get recent blockhash for legacy transactions only
-            if (tx instanceof Transaction) {
-                const { blockhash } = await connection.getLatestBlockhash();
-                tx.recentBlockhash = blockhash;
-                tx.feePayer = wallet.publicKey;
+            updateStatus('previewing', 'Review the simulated swap, then sign.');
+            if (!await awaitPreviewDecision()) {
+                setSwapState({ status: 'idle', message: 'Swap cancelled before signing.' });
+                return null;
             }
 
-            const signedTx = await wallet.signTransaction(tx as Transaction | VersionedTransaction);
-
-            updateStatus('sending', 'Sending transaction...');
-
-            // Send transaction
-            const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-                skipPreflight: false,
+            // Fresh blockhash at signing time, rebroadcast and block-height confirmation
+            const signature = await submitTransaction({
+                connection,
+                transaction: tx,
+                feePayer: wallet.publicKey,
+                signTransaction: wallet.signTransaction,
+                deadline,
+                onEvent: (event) => updateStatus(
+                    event.type === 'signing' ? 'signing' : 'sending',
+                    describeSubmissionEvent(event)
+                ),
             });
 
-            console.log('Transaction sent:', signature);
-
-            // Wait for confirmation
-            updateStatus('sending', 'Confirming transaction...');
-            await connection.confirmTransaction(signature, 'confirmed');
+            console.log('Transaction confirmed:', signature);
+            invalidatePoolState(mints.a, mints.b);
 
             setSwapState({
                 status: 'success',
@@ -207,18 +252,23 @@ export function useIncoSwap(): UseIncoSwapResult {
             return signature;
         } catch (error: any) {
             console.error('Swap failed:', error);
-            setSwapState({
+            setSwapState(prev => ({
                 status: 'error',
                 message: 'Swap failed',
-                error: error.message,
-            });
+                error: describeError(error),
+                preview: prev.preview,
+            }));
             return null;
         }
-    }, [connection, wallet, userAccounts, updateStatus]);
+    }, [connection, wallet, mints, pool, userAccounts, updateStatus, awaitPreviewDecision]);
+
+    const confirmSwap = useCallback(() => decidePreview(true), [decidePreview]);
+    const cancelSwap = useCallback(() => decidePreview(false), [decidePreview]);
 
     const reset = useCallback(() => {
+        decidePreview(false);
         setSwapState({ status: 'idle', message: '' });
-    }, []);
+    }, [decidePreview]);
 
     return {
         swapState,
@@ -226,6 +276,8 @@ export function useIncoSwap(): UseIncoSwapResult {
         isReady: !!(userAccounts?.tokenA && userAccounts?.tokenB),
         prepareAccounts,
         executeSwap,
+        confirmSwap,
+        cancelSwap,
         reset,
     };
 }
@@ -0,0 +1,253 @@
+/**
+ * Activity Export
+ *
+ * Decrypted statements for reconciliation. A statement lists:
+ * - swaps, as an outgoing and an incoming transfer leg per swap
+ * - approvals and faucet drips
+ * - decrypted balance snapshots
+ *
+ * Amounts are encrypted on-chain, so a statement can only hold values the
+ * owner decrypted through attested reveal; every amount row records when it
+ * was decrypted. Balance snapshots are kept per wallet in localStorage next
+ * to the activity history.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { decryptBalances, formatBalance } from './inco-balance';
+import type { HistoryEntry } from './swap-history';
+import type { TokenInfo } from './pool-registry';
+
+const STORAGE_PREFIX = 'velvet-swap:balances:';
+const MAX_SNAPSHOTS = 500;
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface BalanceSnapshot {
+    account: string;
+    mint: string;
+    decimals: number;
+    handle: string;
+    rawAmount: string;
+    amount: string;
+    decryptedAt: number; // ms since epoch
+}
+
+export type StatementRowType = 'swap_out' | 'swap_in' | 'approve' | 'faucet' | 'balance';
+
+export interface StatementRow {
+    type: StatementRowType;
+    signature: string;
+    timestamp: string; // ISO 8601
+    mint: string;
+    decimals: number | null;
+    rawAmount: string;
+    amount: string;
+    decryptedAt: string; // ISO 8601, empty when the amount is still encrypted
+    account: string;
+    pool: string;
+    outcome: string;
+}
+
+export interface Statement {
+    wallet: string;
+    exportedAt: string;
+    rows: StatementRow[];
+}
+
+const CSV_COLUMNS: (keyof StatementRow)[] = [
+    'type',
+    'signature',
+    'timestamp',
+    'mint',
+    'decimals',
+    'rawAmount',
+    'amount',
+    'decryptedAt',
+    'account',
+    'pool',
+    'outcome',
+];
+
+function storageKey(wallet: PublicKey): string {
+    return `${STORAGE_PREFIX}${wallet.toBase58()}`;
+}
+
+function hasStorage(): boolean {
+    return typeof window !== 'undefined' && !!window.localStorage;
+}
+
+function isoTime(ms: number | undefined): string {
+    return ms ? new Date(ms).toISOString() : '';
+}
+
+/**
+ * Read a wallet's decrypted balance snapshots, newest first
+ */
+export function loadBalanceSnapshots(wallet: PublicKey): BalanceSnapshot[] {
+    if (!hasStorage()) return [];
+    try {
+        const raw = window.localStorage.getItem(storageKey(wallet));
+        return raw ? (JSON.parse(raw) as BalanceSnapshot[]) : [];
+    } catch (e) {
+        console.warn('Failed to read balance snapshots:', e);
+        return [];
+    }
+}
+
+/**
+ * Append snapshots to the wallet's statement log
+ */
+export function recordBalanceSnapshots(wallet: PublicKey, snapshots: BalanceSnapshot[]): BalanceSnapshot[] {
+    const all = [...snapshots, ...loadBalanceSnapshots(wallet)]
+        .sort((a, b) => b.decryptedAt - a.decryptedAt)
+        .slice(0, MAX_SNAPSHOTS);
+    if (hasStorage()) {
+        try {
+            window.localStorage.setItem(storageKey(wallet), JSON.stringify(all));
+        } catch (e) {
+            console.warn('Failed to write balance snapshots:', e);
+        }
+    }
+    return all;
+}
+
+/**
+ * Decrypt balance handles and record the results as snapshots
+ * Requires the wallet owner to sign a message for authentication
+ */
+export async function decryptBalanceSnapshots(
+    accounts: { account: PublicKey; mint: PublicKey; decimals: number; handle: string }[],
+    wallet: PublicKey,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<BalanceSnapshot[]> {
+    const plaintexts = await decryptBalances(accounts.map(a => a.handle), wallet, signMessage);
+    const decryptedAt = Date.now();
+
+    const snapshots = accounts.map((a, i) => ({
+        account: a.account.toBase58(),
+        mint: a.mint.toBase58(),
+        decimals: a.decimals,
+        handle: a.handle,
+        rawAmount: plaintexts[i],
+        amount: formatBalance(plaintexts[i], a.decimals),
+        decryptedAt,
+    }));
+    recordBalanceSnapshots(wallet, snapshots);
+    return snapshots;
+}
+
+function emptyRow(type: StatementRowType, signature: string, timestamp: number): StatementRow {
+    return {
+        type,
+        signature,
+        timestamp: isoTime(timestamp),
+        mint: '',
+        decimals: null,
+        rawAmount: '',
+        amount: '',
+        decryptedAt: '',
+        account: '',
+        pool: '',
+        outcome: '',
+    };
+}
+
+/**
+ * Flatten history and balance snapshots into statement rows, oldest first
+ */
+export function buildStatement(
+    wallet: PublicKey,
+    history: HistoryEntry[],
+    snapshots: BalanceSnapshot[],
+    tokens: TokenInfo[]
+): Statement {
+    const decimalsOf = (mint: string | undefined) =>
+        tokens.find(t => t.mint.toBase58() === mint)?.decimals ?? null;
+
+    const amountRow = (row: StatementRow, mint: string | undefined, raw: string | undefined, decryptedAt: number | undefined) => {
+        const decimals = decimalsOf(mint);
+        return {
+            ...row,
+            mint: mint ?? '',
+            decimals,
+            rawAmount: raw ?? '',
+            amount: raw === undefined ? '' : decimals === null ? raw : formatBalance(raw, decimals),
+            decryptedAt: raw === undefined ? '' : isoTime(decryptedAt),
+        };
+    };
+
+    const rows: StatementRow[] = [];
+    for (const entry of history) {
+        const base = emptyRow('swap_out', entry.signature, entry.timestamp);
+        switch (entry.kind) {
+            case 'swap': {
+                const swap = {
+                    ...base,
+                    signature: (entry.signatures ?? [entry.signature]).join(' > '),
+                    pool: (entry.route ?? [entry.pool ?? '']).join(' > '),
+                    outcome: entry.outcome ?? 'unverified',
+                };
+                // A zeroed swap moved nothing; record the legs as zero
+                const zeroed = entry.outcome === 'zeroed';
+                rows.push(amountRow(swap, entry.mintIn, zeroed ? '0' : entry.amountIn, entry.decryptedAt));
+                rows.push(amountRow({ ...swap, type: 'swap_in' }, entry.mintOut, zeroed ? '0' : entry.amountOut, entry.decryptedAt));
+                break;
+            }
+            case 'approve':
+                rows.push({ ...base, type: 'approve', account: entry.account ?? '' });
+                break;
+            case 'faucet':
+                rows.push({ ...base, type: 'faucet' });
+                break;
+        }
+    }
+
+    for (const snapshot of snapshots) {
+        rows.push({
+            ...emptyRow('balance', '', snapshot.decryptedAt),
+            mint: snapshot.mint,
+            decimals: snapshot.decimals,
+            rawAmount: snapshot.rawAmount,
+            amount: snapshot.amount,
+            decryptedAt: isoTime(snapshot.decryptedAt),
+            account: snapshot.account,
+        });
+    }
+
+    rows.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    return { wallet: wallet.toBase58(), exportedAt: new Date().toISOString(), rows };
+}
+
+function csvField(value: string | number | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function statementToCsv(statement: Statement): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of statement.rows) {
+        lines.push(CSV_COLUMNS.map(column => csvField(row[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function statementToJson(statement: Statement): string {
+    return JSON.stringify(statement, null, 2);
+}
+
+/**
+ * Save a statement through the browser's download prompt
+ */
+export function downloadStatement(statement: Statement, format: ExportFormat) {
+    const content = format === 'csv' ? statementToCsv(statement) : statementToJson(statement);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const date = statement.exportedAt.slice(0, 10);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `velvet-statement-${statement.wallet.slice(0, 8)}-${date}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
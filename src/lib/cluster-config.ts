@@ -0,0 +1,285 @@
+/**
+ * Cluster Config Registry
+ *
+ * One validated config per cluster (localnet, devnet, mainnet-beta) holding
+ * endpoints, program IDs, the faucet-funded pool and its lookup table.
+ * Every module and API route reads program IDs and addresses from here.
+ *
+ * Deployments use the devnet-config.json schema:
+ * - devnet: src/config/devnet-config.json
+ * - localnet / mainnet-beta: NEXT_PUBLIC_LOCALNET_CONFIG / NEXT_PUBLIC_MAINNET_CONFIG
+ *   (same JSON, inline); a cluster without one is listed but cannot be selected
+ *
+ * Validation checks every address, that the program IDs match the ones pinned
+ * in the swap IDL, and that the pool authority is the PDA of the configured mints.
+ *
+ * The active cluster is NEXT_PUBLIC_SOLANA_NETWORK (else devnet) until ClusterProvider
+ * activates the one stored by the header switcher after mount, so server and first
+ * client render agree. Modules read it per call through getActiveConfig().
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import lightSwapIdl from '@/idl/light_swap_psp.json';
+import devnetConfig from '@/config/devnet-config.json';
+
+const STORAGE_KEY = 'velvet-swap:cluster';
+
+export type Cluster = 'localnet' | 'devnet' | 'mainnet-beta';
+
+export const CLUSTERS: Cluster[] = ['localnet', 'devnet', 'mainnet-beta'];
+
+export const CLUSTER_LABELS: Record<Cluster, string> = {
+    localnet: 'Localnet',
+    devnet: 'Devnet',
+    'mainnet-beta': 'Mainnet Beta',
+};
+
+// Deployment file schema (devnet-config.json)
+export interface DeploymentConfig {
+    incoMintA: string;
+    incoMintB: string;
+    poolVaultA: string;
+    poolVaultB: string;
+    poolAuthorityPda: string;
+    incoTokenProgram: string;
+    incoLightningProgram: string;
+    swapProgram: string;
+    lookupTable?: string;
+    rpcEndpoint?: string;
+    lightRpcEndpoint?: string;
+    lightProverEndpoint?: string;
+}
+
+export interface ClusterConfig {
+    cluster: Cluster;
+    rpcEndpoint: string;
+    lightRpcEndpoint: string; // Light indexer (Helius / local Photon)
+    lightProverEndpoint: string;
+    faucet: boolean;
+    programs: {
+        swap: PublicKey;
+        incoToken: PublicKey;
+        incoLightning: PublicKey;
+    };
+    mints: {
+        a: PublicKey;
+        b: PublicKey;
+    };
+    pool: {
+        vaultA: PublicKey;
+        vaultB: PublicKey;
+        authority: PublicKey;
+    };
+    lookupTable: PublicKey | null;
+}
+
+// Helius devnet RPC (public)
+const HELIUS_DEVNET_RPC = 'https://devnet.helius-rpc.com/?api-key=2d8978c6-7067-459f-ae97-7ea035f1a0cb';
+
+// Helius serves RPC, indexer and prover from one URL; `light test-validator` runs them on separate ports
+const DEVNET_RPC = process.env.NEXT_PUBLIC_HELIUS_RPC_URL || HELIUS_DEVNET_RPC;
+const MAINNET_RPC = process.env.NEXT_PUBLIC_MAINNET_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+const DEFAULT_ENDPOINTS: Record<Cluster, { rpc: string; lightRpc: string; lightProver: string }> = {
+    localnet: { rpc: 'http://127.0.0.1:8899', lightRpc: 'http://127.0.0.1:8784', lightProver: 'http://127.0.0.1:3001' },
+    devnet: { rpc: DEVNET_RPC, lightRpc: DEVNET_RPC, lightProver: DEVNET_RPC },
+    'mainnet-beta': { rpc: MAINNET_RPC, lightRpc: MAINNET_RPC, lightProver: MAINNET_RPC },
+};
+
+// Next.js only inlines NEXT_PUBLIC_* when read by literal name
+function rawDeployment(cluster: Cluster): unknown {
+    switch (cluster) {
+        case 'devnet':
+            return devnetConfig;
+        case 'localnet':
+            return process.env.NEXT_PUBLIC_LOCALNET_CONFIG ? JSON.parse(process.env.NEXT_PUBLIC_LOCALNET_CONFIG) : null;
+        case 'mainnet-beta':
+            return process.env.NEXT_PUBLIC_MAINNET_CONFIG ? JSON.parse(process.env.NEXT_PUBLIC_MAINNET_CONFIG) : null;
+    }
+}
+
+// Program IDs the swap program's IDL pins (Anchor resolves these accounts itself)
+function idlPinnedAddress(account: string): string | undefined {
+    for (const ix of (lightSwapIdl as any).instructions) {
+        const match = ix.accounts.find((a: any) => a.name === account && a.address);
+        if (match) return match.address;
+    }
+    return undefined;
+}
+
+// Pinned by the swap IDL, so the same on every cluster (validateClusterConfig enforces it)
+export const PROGRAM_IDS = {
+    swap: new PublicKey((lightSwapIdl as any).address),
+    incoToken: new PublicKey(idlPinnedAddress('inco_token_program')!),
+    incoLightning: new PublicKey(idlPinnedAddress('inco_lightning_program')!),
+};
+
+export function isCluster(value: unknown): value is Cluster {
+    return typeof value === 'string' && (CLUSTERS as string[]).includes(value);
+}
+
+/**
+ * Validate a deployment file for a cluster. Throws listing every problem found.
+ */
+export function validateClusterConfig(cluster: Cluster, raw: unknown): ClusterConfig {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error(`No deployment configured for ${cluster}`);
+    }
+    const deployment = raw as Partial<DeploymentConfig>;
+    const problems: string[] = [];
+
+    const key = (field: keyof DeploymentConfig): PublicKey => {
+        const value = deployment[field];
+        try {
+            return new PublicKey(value as string);
+        } catch {
+            problems.push(`${field} is not a valid address (${value ?? 'missing'})`);
+            return PublicKey.default;
+        }
+    };
+
+    const programs = {
+        swap: key('swapProgram'),
+        incoToken: key('incoTokenProgram'),
+        incoLightning: key('incoLightningProgram'),
+    };
+    const mints = { a: key('incoMintA'), b: key('incoMintB') };
+    const pool = { vaultA: key('poolVaultA'), vaultB: key('poolVaultB'), authority: key('poolAuthorityPda') };
+    const lookupTable = deployment.lookupTable ? key('lookupTable') : null;
+
+    const pinned: [string, string | undefined, PublicKey][] = [
+        ['swapProgram', (lightSwapIdl as any).address, programs.swap],
+        ['incoTokenProgram', idlPinnedAddress('inco_token_program'), programs.incoToken],
+        ['incoLightningProgram', idlPinnedAddress('inco_lightning_program'), programs.incoLightning],
+    ];
+    for (const [field, expected, actual] of pinned) {
+        if (expected && !actual.equals(PublicKey.default) && actual.toBase58() !== expected) {
+            problems.push(`${field} ${actual.toBase58()} does not match the swap IDL (${expected})`);
+        }
+    }
+
+    if (problems.length === 0) {
+        const [authority] = PublicKey.findProgramAddressSync(
+            [Buffer.from('pool_authority'), mints.a.toBuffer(), mints.b.toBuffer()],
+            programs.swap
+        );
+        if (!authority.equals(pool.authority)) {
+            problems.push(`poolAuthorityPda ${pool.authority.toBase58()} is not the pool authority of the configured mints (${authority.toBase58()})`);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid ${cluster} config: ${problems.join('; ')}`);
+    }
+
+    return {
+        cluster,
+        rpcEndpoint: deployment.rpcEndpoint || DEFAULT_ENDPOINTS[cluster].rpc,
+        lightRpcEndpoint: deployment.lightRpcEndpoint || DEFAULT_ENDPOINTS[cluster].lightRpc,
+        lightProverEndpoint: deployment.lightProverEndpoint || DEFAULT_ENDPOINTS[cluster].lightProver,
+        faucet: cluster !== 'mainnet-beta',
+        programs,
+        mints,
+        pool,
+        lookupTable,
+    };
+}
+
+const configCache = new Map<Cluster, ClusterConfig>();
+
+/**
+ * Validated config for a cluster (throws when it has no valid deployment)
+ */
+export function getClusterConfig(cluster: Cluster): ClusterConfig {
+    const cached = configCache.get(cluster);
+    if (cached) return cached;
+    const config = validateClusterConfig(cluster, rawDeployment(cluster));
+    configCache.set(cluster, config);
+    return config;
+}
+
+/**
+ * Every cluster with its config, or the reason it cannot be selected
+ */
+export function listClusters(): { cluster: Cluster; config: ClusterConfig | null; error: string | null }[] {
+    return CLUSTERS.map(cluster => {
+        try {
+            return { cluster, config: getClusterConfig(cluster), error: null };
+        } catch (e: any) {
+            return { cluster, config: null, error: e.message };
+        }
+    });
+}
+
+/**
+ * NEXT_PUBLIC_SOLANA_NETWORK, else devnet (the same on server and client)
+ */
+export function getDefaultCluster(): Cluster {
+    const fromEnv = process.env.NEXT_PUBLIC_SOLANA_NETWORK;
+    return isCluster(fromEnv) ? fromEnv : 'devnet';
+}
+
+/**
+ * Cluster selected in the header, if any (browser only; call after mount)
+ */
+export function loadStoredCluster(): Cluster | null {
+    if (typeof window === 'undefined' || !window.localStorage) return null;
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isCluster(stored) ? stored : null;
+}
+
+/**
+ * Remember the selected cluster; callers reload so the provider activates it
+ */
+export function setActiveCluster(cluster: Cluster) {
+    getClusterConfig(cluster); // refuse clusters without a valid deployment
+    window.localStorage.setItem(STORAGE_KEY, cluster);
+}
+
+let activeConfig: ClusterConfig | null = null;
+
+/**
+ * Make a cluster the active one, falling back to devnet when it has no valid deployment
+ */
+export function activateCluster(cluster: Cluster): ClusterConfig {
+    try {
+        activeConfig = getClusterConfig(cluster);
+    } catch (e: any) {
+        console.warn(`${e.message}; falling back to devnet`);
+        activeConfig = getClusterConfig('devnet');
+    }
+    return activeConfig;
+}
+
+/**
+ * Config of the active cluster (the default cluster until one is activated)
+ */
+export function getActiveConfig(): ClusterConfig {
+    return activeConfig ?? activateCluster(getDefaultCluster());
+}
+
+/**
+ * RPC endpoint for API routes: the server-side Helius key (HELIUS_DEVNET_API_KEY)
+ * takes precedence over the public devnet endpoint
+ */
+export function serverRpcEndpoint(config: ClusterConfig): string {
+    if (config.cluster === 'devnet' && process.env.HELIUS_DEVNET_API_KEY) {
+        return `https://devnet.helius-rpc.com/?api-key=${process.env.HELIUS_DEVNET_API_KEY}`;
+    }
+    return config.rpcEndpoint;
+}
+
+/**
+ * Solana Explorer link for a transaction on the given cluster
+ */
+export function explorerTxUrl(signature: string, config: ClusterConfig = getActiveConfig()): string {
+    const base = `https://explorer.solana.com/tx/${signature}`;
+    switch (config.cluster) {
+        case 'mainnet-beta':
+            return base;
+        case 'devnet':
+            return `${base}?cluster=devnet`;
+        case 'localnet':
+            return `${base}?cluster=custom&customUrl=${encodeURIComponent(config.rpcEndpoint)}`;
+    }
+}
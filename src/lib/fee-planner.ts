@@ -0,0 +1,209 @@
+/**
+ * Fee Planner
+ *
+ * Sizes the compute budget of every transaction the app sends:
+ * 1. Simulate the instructions to measure compute units, then add headroom
+ * 2. Read getRecentPrioritizationFees for the accounts the transaction writes
+ * 3. Pick a priority fee percentile from the user's speed level
+ *
+ * Falls back to a fixed CU limit when simulation fails (e.g. a leg that
+ * depends on a previous, not yet landed transaction).
+ */
+
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction,
+} from '@solana/web3.js';
+
+export type FeeSpeed = 'economy' | 'normal' | 'fast';
+
+export const FEE_SPEEDS: FeeSpeed[] = ['economy', 'normal', 'fast'];
+
+// Solana per-transaction compute ceiling
+export const MAX_COMPUTE_UNITS = 1_400_000;
+
+// Headroom over simulated usage (FHE ops and Light proofs vary slightly per call)
+const COMPUTE_UNIT_MARGIN = 1.2;
+
+// getRecentPrioritizationFees accepts at most 128 accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+const SPEED_PERCENTILE: Record<FeeSpeed, number> = {
+    economy: 25,
+    normal: 50,
+    fast: 90,
+};
+
+// Floors keep transactions landing when recent fees are all zero (common on devnet)
+const SPEED_MIN_MICROLAMPORTS: Record<FeeSpeed, number> = {
+    economy: 10_000,
+    normal: 50_000,
+    fast: 100_000,
+};
+
+const MAX_MICROLAMPORTS = 2_000_000;
+
+// Base fee per signature
+export const LAMPORTS_PER_SIGNATURE = 5000;
+
+export interface FeePlan {
+    speed: FeeSpeed;
+    computeUnits: number;
+    microLamports: number;
+    simulated: boolean;
+}
+
+let currentSpeed: FeeSpeed = 'normal';
+
+/**
+ * Speed level used when a caller does not pass one explicitly
+ */
+export function getFeeSpeed(): FeeSpeed {
+    return currentSpeed;
+}
+
+export function setFeeSpeed(speed: FeeSpeed) {
+    currentSpeed = speed;
+}
+
+export function isFeeSpeed(value: unknown): value is FeeSpeed {
+    return typeof value === 'string' && (FEE_SPEEDS as string[]).includes(value);
+}
+
+function isComputeBudgetIx(ix: TransactionInstruction): boolean {
+    return ix.programId.equals(ComputeBudgetProgram.programId);
+}
+
+/**
+ * Simulate instructions at the maximum CU limit and return the units consumed.
+ * Returns null when the simulation fails.
+ */
+export async function simulateComputeUnits(
+    connection: Connection,
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[] = []
+): Promise<number | null> {
+    try {
+        const { blockhash } = await connection.getLatestBlockhash();
+        const message = new TransactionMessage({
+            payerKey: payer,
+            recentBlockhash: blockhash,
+            instructions: [
+                ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+                ...instructions.filter(ix => !isComputeBudgetIx(ix)),
+            ],
+        }).compileToV0Message(lookupTables);
+
+        const simulation = await connection.simulateTransaction(new VersionedTransaction(message), {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+        });
+
+        if (simulation.value.err || !simulation.value.unitsConsumed) {
+            console.warn('CU simulation failed:', simulation.value.err, simulation.value.logs?.slice(-5));
+            return null;
+        }
+        return simulation.value.unitsConsumed;
+    } catch (e: any) {
+        console.warn('CU simulation failed:', e.message);
+        return null;
+    }
+}
+
+/**
+ * Priority fee (microLamports per CU) for the accounts a transaction writes
+ */
+export async function estimatePriorityFee(
+    connection: Connection,
+    writableAccounts: PublicKey[],
+    speed: FeeSpeed = getFeeSpeed()
+): Promise<number> {
+    const floor = SPEED_MIN_MICROLAMPORTS[speed];
+
+    let fees: number[] = [];
+    try {
+        const recent = await connection.getRecentPrioritizationFees({
+            lockedWritableAccounts: writableAccounts.slice(0, MAX_FEE_ACCOUNTS),
+        });
+        fees = recent.map(f => f.prioritizationFee).filter(f => f > 0).sort((a, b) => a - b);
+    } catch (e: any) {
+        console.warn('Could not read recent prioritization fees:', e.message);
+    }
+
+    if (fees.length === 0) return floor;
+
+    const index = Math.min(fees.length - 1, Math.floor((SPEED_PERCENTILE[speed] / 100) * fees.length));
+    return Math.min(MAX_MICROLAMPORTS, Math.max(floor, fees[index]));
+}
+
+function writableAccounts(payer: PublicKey, instructions: TransactionInstruction[]): PublicKey[] {
+    const accounts = new Map<string, PublicKey>([[payer.toBase58(), payer]]);
+    for (const ix of instructions) {
+        for (const key of ix.keys) {
+            if (key.isWritable) accounts.set(key.pubkey.toBase58(), key.pubkey);
+        }
+    }
+    return Array.from(accounts.values());
+}
+
+/**
+ * Plan the compute budget for a set of instructions
+ *
+ * @param unitsConsumed - skip simulation when the caller already measured the instructions
+ * @param fallbackUnits - CU limit used when simulation fails
+ */
+export async function planFees(params: {
+    connection: Connection;
+    payer: PublicKey;
+    instructions: TransactionInstruction[];
+    lookupTables?: AddressLookupTableAccount[];
+    speed?: FeeSpeed;
+    unitsConsumed?: number;
+    fallbackUnits?: number;
+}): Promise<FeePlan> {
+    const {
+        connection,
+        payer,
+        instructions,
+        lookupTables = [],
+        speed = getFeeSpeed(),
+        fallbackUnits = MAX_COMPUTE_UNITS,
+    } = params;
+
+    const [unitsConsumed, microLamports] = await Promise.all([
+        params.unitsConsumed ?? simulateComputeUnits(connection, payer, instructions, lookupTables),
+        estimatePriorityFee(connection, writableAccounts(payer, instructions), speed),
+    ]);
+
+    const computeUnits = unitsConsumed
+        ? Math.min(MAX_COMPUTE_UNITS, Math.ceil(unitsConsumed * COMPUTE_UNIT_MARGIN))
+        : fallbackUnits;
+
+    const plan: FeePlan = { speed, computeUnits, microLamports, simulated: !!unitsConsumed };
+    console.log('Fee plan:', plan);
+    return plan;
+}
+
+/**
+ * Lamports a transaction costs: base fee per signature plus the priority fee
+ * (compute unit limit × price; the limit is charged, not the units used)
+ */
+export function networkFeeLamports(computeUnits: number, microLamports: number, signatures: number = 1): number {
+    return signatures * LAMPORTS_PER_SIGNATURE + Math.ceil((computeUnits * microLamports) / 1_000_000);
+}
+
+/**
+ * Compute budget instructions for a plan (prepend to the transaction)
+ */
+export function computeBudgetInstructions(plan: FeePlan): TransactionInstruction[] {
+    return [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: plan.computeUnits }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: plan.microLamports }),
+    ];
+}
@@ -9,6 +9,9 @@
 import { Connection, PublicKey, Transaction, ComputeBudgetProgram, SystemProgram } from '@solana/web3.js';
 import { Program, AnchorProvider } from '@coral-xyz/anchor';
 import { INCO_LIGHTNING_PROGRAM_ID } from './inco-account-manager';
+import { planFees, computeBudgetInstructions, MAX_COMPUTE_UNITS } from './fee-planner';
+import { submitTransaction, describeSubmissionEvent } from './tx-submitter';
+import { decodeError, describeError } from './swap-errors';
 import { encryptValue } from '@inco/solana-sdk/encryption';
 import { hexToBuffer } from '@inco/solana-sdk/utils';
 
@@ -104,11 +107,6 @@ export async function grantDecryptAccess(
     const provider = new AnchorProvider(connection, wallet as any, { commitment: 'confirmed' });
     const program = new Program(incoTokenIdl, provider);
 
-    const computeIxs = [
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
-    ];
-
     const ciphertext = await encryptZero();
 
     // Step 1: Build burn(0) simulation tx (no allowance accounts)
@@ -126,7 +124,7 @@ export async function grantDecryptAccess(
         .instruction();
 
     const simTx = new Transaction();
-    computeIxs.forEach(ix => simTx.add(ix));
+    simTx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }));
     simTx.add(burnIx);
 
     const { blockhash } = await connection.getLatestBlockhash();
@@ -146,7 +144,10 @@ export async function grantDecryptAccess(
 
     if (simulation.value.err) {
         console.error('Simulation failed:', simulation.value.err, simulation.value.logs?.slice(-5));
-        throw new Error(`Simulation failed: ${JSON.stringify(simulation.value.err)}`);
+        throw decodeError(
+            Object.assign(new Error(`Simulation failed: ${JSON.stringify(simulation.value.err)}`), { logs: simulation.value.logs }),
+            'inco-token'
+        );
     }
 
     if (!simulation.value.accounts?.[0]?.data) {
@@ -182,19 +183,23 @@ export async function grantDecryptAccess(
         ])
         .transaction();
 
+    const feePlan = await planFees({
+        connection,
+        payer: wallet.publicKey,
+        instructions: realTx.instructions,
+    });
+
     const finalTx = new Transaction();
-    computeIxs.forEach(ix => finalTx.add(ix));
+    finalTx.add(...computeBudgetInstructions(feePlan));
     finalTx.add(...realTx.instructions);
 
-    const { blockhash: bh2 } = await connection.getLatestBlockhash();
-    finalTx.recentBlockhash = bh2;
-    finalTx.feePayer = wallet.publicKey;
-
-    const signedTx = await wallet.signTransaction(finalTx);
-    const sig = await connection.sendRawTransaction(signedTx.serialize(), { skipPreflight: false });
-    
-    status('Confirming access grant...');
-    await connection.confirmTransaction(sig, 'confirmed');
+    const sig = await submitTransaction({
+        connection,
+        transaction: finalTx,
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onEvent: (event) => status(describeSubmissionEvent(event)),
+    });
 
     // Wait for covalidator to process the new FHE handle
     // The official inco-token test uses 5s delays after on-chain operations
@@ -240,7 +245,7 @@ export async function ensureDecryptAccess(
         return true;
     } catch (e: any) {
         console.error('Failed to grant access:', e);
-        onStatus?.(`Access grant failed: ${e.message}`);
+        onStatus?.(`Access grant failed: ${describeError(e, 'inco-token')}`);
         return false;
     }
 }
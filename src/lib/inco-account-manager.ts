@@ -7,19 +7,15 @@
  * 3. Return account addresses for swap execution
  */
 
-import { Connection, PublicKey, Transaction, Keypair, ComputeBudgetProgram } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction, Keypair } from '@solana/web3.js';
 import { Program, AnchorProvider, BN } from '@coral-xyz/anchor';
-import devnetConfig from '@/config/devnet-config.json';
+import { getActiveConfig, PROGRAM_IDS } from './cluster-config';
+import { planFees, computeBudgetInstructions, getFeeSpeed } from './fee-planner';
+import { isSimulatorEnabled, simulatorFaucet } from './local-simulator';
 
 // Program IDs
-export const INCO_TOKEN_PROGRAM_ID = new PublicKey('CYVSeUyVzHGVcrxsJt3E8tbaPCQT8ASdRR45g5WxUEW7');
-export const INCO_LIGHTNING_PROGRAM_ID = new PublicKey('5sjEbPiqgZrYwR31ahR6Uk9wf5awoX61YGg7jExQSwaj');
-
-// Devnet mints
-export const INCO_MINT_A = new PublicKey(devnetConfig.incoMintA); // wSOL
-export const INCO_MINT_B = new PublicKey(devnetConfig.incoMintB); // USDC
-export const POOL_VAULT_A = new PublicKey(devnetConfig.poolVaultA);
-export const POOL_VAULT_B = new PublicKey(devnetConfig.poolVaultB);
+export const INCO_TOKEN_PROGRAM_ID = PROGRAM_IDS.incoToken;
+export const INCO_LIGHTNING_PROGRAM_ID = PROGRAM_IDS.incoLightning;
 
 // IncoAccount discriminator (first 8 bytes of account data)
 const INCO_ACCOUNT_DISCRIMINATOR = Buffer.from([112, 234, 85, 188, 136, 127, 133, 93]);
@@ -51,6 +47,8 @@ export async function findUserIncoAccounts(
         ],
     });
 
+    // Faucet mints of the active cluster (A: wSOL, B: USDC)
+    const { mints } = getActiveConfig();
     let tokenA: PublicKey | null = null;
     let tokenB: PublicKey | null = null;
 
@@ -73,11 +71,11 @@ export async function findUserIncoAccounts(
             continue;
         }
 
-        // Match to our devnet mints
-        if (mint.equals(INCO_MINT_A)) {
+        // Match to the faucet mints
+        if (mint.equals(mints.a)) {
             tokenA = pubkey;
             console.log('Found Token A account:', pubkey.toBase58());
-        } else if (mint.equals(INCO_MINT_B)) {
+        } else if (mint.equals(mints.b)) {
             tokenB = pubkey;
             console.log('Found Token B account:', pubkey.toBase58());
         }
@@ -86,6 +84,25 @@ export async function findUserIncoAccounts(
     return { tokenA, tokenB };
 }
 
+/**
+ * Find an existing IncoAccount owned by a wallet for an arbitrary mint
+ */
+export async function findIncoAccountForMint(
+    connection: Connection,
+    ownerPubkey: PublicKey,
+    mint: PublicKey
+): Promise<PublicKey | null> {
+    const accounts = await connection.getProgramAccounts(INCO_TOKEN_PROGRAM_ID, {
+        filters: [
+            { dataSize: 221 }, // IncoAccount size
+            { memcmp: { offset: 8, bytes: mint.toBase58() } },
+            { memcmp: { offset: 40, bytes: ownerPubkey.toBase58() } },
+        ],
+    });
+
+    return accounts.length > 0 ? accounts[0].pubkey : null;
+}
+
 /**
  * Create IncoAccount for a user (returns the transaction to sign)
  */
@@ -115,12 +132,15 @@ export async function createIncoAccountTx(
         })
         .instruction();
 
+    const feePlan = await planFees({
+        connection,
+        payer: wallet.publicKey,
+        instructions: [ix],
+        fallbackUnits: 400_000,
+    });
+
     const tx = new Transaction();
-    tx.add(
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 50_000 }),
-        ix
-    );
+    tx.add(...computeBudgetInstructions(feePlan), ix);
 
     return tx;
 }
@@ -134,19 +154,29 @@ export async function ensureUserIncoAccounts(
     connection: Connection,
     wallet: WalletAdapter,
     onStatusUpdate?: (status: string) => void
-): Promise<{ tokenA: PublicKey; tokenB: PublicKey; created: boolean }> {
+): Promise<{ tokenA: PublicKey; tokenB: PublicKey; created: boolean; faucetSignatures: string[] }> {
     const status = (msg: string) => {
         console.log(msg);
         onStatusUpdate?.(msg);
     };
 
+    if (isSimulatorEnabled()) {
+        const { tokenA, tokenB, created } = simulatorFaucet(wallet.publicKey);
+        status(created ? 'Accounts created & funded ✓' : 'Accounts ready ✓');
+        return { tokenA, tokenB, created, faucetSignatures: [] };
+    }
+
     // Faucet is the single source of truth: creates accounts + mints + fixes corrupted ones
     status('Setting up token accounts via faucet...');
     try {
         const resp = await fetch('/api/faucet', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ wallet: wallet.publicKey.toBase58() }),
+            body: JSON.stringify({
+                wallet: wallet.publicKey.toBase58(),
+                speed: getFeeSpeed(),
+                cluster: getActiveConfig().cluster,
+            }),
         });
         const result = await resp.json();
         if (result.success && result.tokenA && result.tokenB) {
@@ -155,14 +185,16 @@ export async function ensureUserIncoAccounts(
             } else {
                 status('Accounts ready ✓');
             }
+            for (const mintError of result.mintErrors ?? []) status(`Faucet: ${mintError}`);
             return {
                 tokenA: new PublicKey(result.tokenA),
                 tokenB: new PublicKey(result.tokenB),
                 created: !!(result.mintedA || result.mintedB),
+                faucetSignatures: result.signatures ?? [],
             };
         }
         // Faucet returned an error but didn't throw
-        status('Faucet: ' + (result.error || 'unknown error'));
+        status('Faucet: ' + ([result.error, result.action].filter(Boolean).join(' ') || 'unknown error'));
     } catch (e: any) {
         console.warn('Faucet call failed:', e.message);
         status('Faucet unavailable, checking local accounts...');
@@ -171,7 +203,7 @@ export async function ensureUserIncoAccounts(
     // Fallback: find existing accounts if faucet is unreachable
     const accounts = await findUserIncoAccounts(connection, wallet.publicKey);
     if (accounts.tokenA && accounts.tokenB) {
-        return { tokenA: accounts.tokenA, tokenB: accounts.tokenB, created: false };
+        return { tokenA: accounts.tokenA, tokenB: accounts.tokenB, created: false, faucetSignatures: [] };
     }
 
     throw new Error('No token accounts found and faucet is unavailable. Please try again.');
@@ -213,12 +245,13 @@ export async function prepareSwap(params: SwapParams): Promise<SwapResult> {
         onStatusUpdate
     );
 
+    const { mints, pool } = getActiveConfig();
     return {
         userTokenA: tokenA,
         userTokenB: tokenB,
-        poolVaultA: POOL_VAULT_A,
-        poolVaultB: POOL_VAULT_B,
-        mintA: INCO_MINT_A,
-        mintB: INCO_MINT_B,
+        poolVaultA: pool.vaultA,
+        poolVaultB: pool.vaultB,
+        mintA: mints.a,
+        mintB: mints.b,
     };
 }
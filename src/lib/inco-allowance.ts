@@ -5,14 +5,14 @@
  * Allows the pool authority PDA to spend tokens on behalf of the user.
  */
 
-import { Connection, PublicKey, Transaction, ComputeBudgetProgram } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
 import { Program, AnchorProvider } from '@coral-xyz/anchor';
 import { INCO_LIGHTNING_PROGRAM_ID } from './inco-account-manager';
+import { planFees, computeBudgetInstructions } from './fee-planner';
+import { submitTransaction, describeSubmissionEvent } from './tx-submitter';
 import { encryptValue } from '@inco/solana-sdk/encryption';
 import { hexToBuffer } from '@inco/solana-sdk/utils';
-import devnetConfig from '@/config/devnet-config.json';
-
-const POOL_AUTHORITY_PDA = new PublicKey(devnetConfig.poolAuthorityPda);
+import { getActiveConfig } from './cluster-config';
 
 export interface ApproveParams {
     connection: Connection;
@@ -64,12 +64,15 @@ export async function buildApproveTransaction(params: ApproveParams): Promise<Tr
         })
         .instruction();
 
+    const feePlan = await planFees({
+        connection,
+        payer: wallet.publicKey,
+        instructions: [ix],
+        fallbackUnits: 400_000,
+    });
+
     const tx = new Transaction();
-    tx.add(
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 400_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 50_000 }),
-        ix
-    );
+    tx.add(...computeBudgetInstructions(feePlan), ix);
 
     return tx;
 }
@@ -99,34 +102,25 @@ export async function approvePoolAuthority(
         connection,
         wallet,
         sourceAccount: userTokenAccount,
-        delegate: POOL_AUTHORITY_PDA,
+        delegate: getPoolAuthorityPda(),
         amount,
     });
 
-    status('Please sign the approve transaction...');
-
-    const { blockhash } = await connection.getLatestBlockhash();
-    tx.recentBlockhash = blockhash;
-    tx.feePayer = wallet.publicKey;
-
-    const signedTx = await wallet.signTransaction(tx);
-
-    status('Sending approve transaction...');
-
-    const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: false,
+    const signature = await submitTransaction({
+        connection,
+        transaction: tx,
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onEvent: (event) => status(describeSubmissionEvent(event)),
     });
 
-    status('Confirming...');
-    await connection.confirmTransaction(signature, 'confirmed');
-
     status(`Approved! Tx: ${signature.slice(0, 20)}...`);
     return signature;
 }
 
 /**
- * Get the pool authority PDA address
+ * Get the pool authority PDA address of the active cluster's pool
  */
 export function getPoolAuthorityPda(): PublicKey {
-    return POOL_AUTHORITY_PDA;
+    return getActiveConfig().pool.authority;
 }
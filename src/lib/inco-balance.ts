@@ -6,7 +6,10 @@
  */
 
 import { Connection, PublicKey } from '@solana/web3.js';
-import { INCO_TOKEN_PROGRAM_ID, INCO_LIGHTNING_PROGRAM_ID, INCO_MINT_A, INCO_MINT_B } from './inco-account-manager';
+import { INCO_TOKEN_PROGRAM_ID, INCO_LIGHTNING_PROGRAM_ID } from './inco-account-manager';
+import { getActiveConfig } from './cluster-config';
+import { isSimulatorEnabled, simulatorDecrypt } from './local-simulator';
+import { decodeError, swapError } from './swap-errors';
 
 // IncoAccount data layout offsets
 // [0..8]   discriminator
@@ -62,6 +65,7 @@ export async function fetchUserIncoAccounts(
     });
 
     // Collect ALL candidate accounts per mint (user may have old corrupted + new valid)
+    const { mints } = getActiveConfig();
     const candidatesA: IncoAccountInfo[] = [];
     const candidatesB: IncoAccountInfo[] = [];
 
@@ -82,8 +86,8 @@ export async function fetchUserIncoAccounts(
             state: data[121] || 0,
         };
 
-        if (mint.equals(INCO_MINT_A)) candidatesA.push(info);
-        else if (mint.equals(INCO_MINT_B)) candidatesB.push(info);
+        if (mint.equals(mints.a)) candidatesA.push(info);
+        else if (mint.equals(mints.b)) candidatesB.push(info);
     }
 
     // Pick the best account per mint: prefer one with a valid allowance PDA
@@ -124,6 +128,8 @@ export async function decryptBalances(
     walletAddress: PublicKey | string,
     signMessage: (message: Uint8Array) => Promise<Uint8Array>
 ): Promise<string[]> {
+    if (isSimulatorEnabled()) return simulatorDecrypt(handles);
+
     // Filter out zero handles (no balance)
     const validHandles = handles.filter(h => h !== '0');
     if (validHandles.length === 0) {
@@ -154,7 +160,8 @@ export async function decryptBalances(
         });
     } catch (error: any) {
         console.error('Decrypt failed:', error);
-        throw new Error(`Balance decryption failed: ${error.message}`);
+        const decoded = decodeError(error, 'inco-token');
+        throw decoded.code === 'Unknown' ? swapError('IncoDecryptFailed', error) : decoded;
     }
 }
 
@@ -176,3 +183,15 @@ export function formatBalance(rawValue: string, decimals: number): string {
     const trimmed = fractionStr.replace(/0+$/, '');
     return `${whole}.${trimmed}`;
 }
+
+/**
+ * Parse a decimal amount into a raw value (extra fraction digits are dropped);
+ * null when it is not a positive amount
+ */
+export function parseBalance(value: string, decimals: number): bigint | null {
+    const match = value.trim().match(/^(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) return null;
+    const fraction = (match[2] ?? '').slice(0, decimals).padEnd(decimals, '0');
+    const raw = BigInt(match[1] || '0') * 10n ** BigInt(decimals) + BigInt(fraction || '0');
+    return raw > 0n ? raw : null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Indexer Store (server only)
+ *
+ * JSON file storage for the swap indexer, one file per cluster under
+ * INDEXER_DATA_DIR (default .data/). Writes go to a temp file first and are
+ * renamed into place, so a crash mid-write keeps the previous snapshot.
+ *
+ * `syncIndexer` is what the API routes call: it shares one in-flight sync per
+ * cluster and skips syncing when the last one is recent. INDEXER_RPC_URL
+ * points the indexer at another RPC; callers such as scripts/indexer-check.ts
+ * can also pass their own `IndexerRpc` and store.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Connection } from '@solana/web3.js';
+import { getActiveConfig, getClusterConfig, isCluster, serverRpcEndpoint, type Cluster } from './cluster-config';
+import {
+    emptyIndexerState,
+    syncPoolEvents,
+    type IndexerRpc,
+    type IndexerState,
+    type IndexerStore,
+} from './swap-indexer';
+
+const SYNC_INTERVAL_MS = 15_000;
+
+function dataDir(): string {
+    return process.env.INDEXER_DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+export function createJsonFileStore(file: string): IndexerStore {
+    return {
+        load: async () => {
+            try {
+                return { ...emptyIndexerState(), ...JSON.parse(await fs.readFile(file, 'utf-8')) };
+            } catch (e: any) {
+                if (e.code !== 'ENOENT') console.warn(`Indexer store ${file} unreadable, starting empty:`, e.message);
+                return emptyIndexerState();
+            }
+        },
+        save: async (state) => {
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            const tmp = `${file}.tmp`;
+            await fs.writeFile(tmp, JSON.stringify(state));
+            await fs.rename(tmp, file);
+        },
+    };
+}
+
+/**
+ * Cluster named by a request (default: the server's active cluster), or why it cannot be indexed
+ */
+export function parseIndexerCluster(value: string | null): { cluster: Cluster; error: null } | { cluster: null; error: string } {
+    const cluster = value ?? getActiveConfig().cluster;
+    if (!isCluster(cluster)) return { cluster: null, error: `Unknown cluster: ${cluster}` };
+    try {
+        getClusterConfig(cluster);
+    } catch (e: any) {
+        return { cluster: null, error: e.message };
+    }
+    return { cluster, error: null };
+}
+
+const stores = new Map<Cluster, IndexerStore>();
+const inFlight = new Map<Cluster, Promise<IndexerState>>();
+
+export function getIndexerStore(cluster: Cluster): IndexerStore {
+    let store = stores.get(cluster);
+    if (!store) {
+        store = createJsonFileStore(path.join(dataDir(), `indexer-${cluster}.json`));
+        stores.set(cluster, store);
+    }
+    return store;
+}
+
+/**
+ * Sync the cluster's index (unless `force` is false and it synced recently) and return it.
+ * `rpc` defaults to a connection to the cluster (or INDEXER_RPC_URL), `store` to the
+ * cluster's JSON file; only syncs of that shared store are deduplicated.
+ */
+export async function syncIndexer(
+    cluster: Cluster,
+    options: { force?: boolean; rpc?: IndexerRpc; store?: IndexerStore } = {}
+): Promise<IndexerState> {
+    const { force = false } = options;
+    const shared = !options.store;
+    const pending = shared ? inFlight.get(cluster) : undefined;
+    if (pending) return pending;
+
+    const store = options.store ?? getIndexerStore(cluster);
+    const sync = (async () => {
+        const state = await store.load();
+        if (!force && state.syncedAt && Date.now() - state.syncedAt < SYNC_INTERVAL_MS) return state;
+
+        const config = getClusterConfig(cluster);
+        const rpc = options.rpc ?? new Connection(process.env.INDEXER_RPC_URL || serverRpcEndpoint(config), 'confirmed');
+        return (await syncPoolEvents(rpc, store, { programId: config.programs.swap })).state;
+    })();
+
+    if (!shared) return sync;
+    inFlight.set(cluster, sync);
+    try {
+        return await sync;
+    } finally {
+        inFlight.delete(cluster);
+    }
+}
@@ -0,0 +1,222 @@
+/**
+ * Light Compression
+ *
+ * Moves SPL tokens between public and compressed state:
+ * - compress: SPL token account → token pool, minting a compressed account to the owner.
+ *   The SPL account keeps whatever was not compressed.
+ * - decompress: compressed accounts → the owner's associated token account (created
+ *   when missing). Unspent input goes back to the owner as a compressed change account.
+ *
+ * Both directions need the mint registered with the compressed token program (a
+ * token pool PDA holding the SPL side); `getTokenPoolStatus` checks this and
+ * `registerTokenPool` creates it.
+ */
+
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey, SystemProgram, Transaction, TransactionInstruction, type Connection } from '@solana/web3.js';
+import { bn, selectStateTreeInfo, type Rpc } from '@lightprotocol/stateless.js';
+import {
+    CompressedTokenProgram,
+    getSplInterfaceInfos,
+    selectSplInterfaceInfo,
+    selectSplInterfaceInfosForDecompression,
+    type SplInterfaceInfo,
+} from '@lightprotocol/compressed-token';
+import { DEFAULT_MAX_INPUTS, selectCompressedInputs, submitLightInstructions } from './light-psp-transfer';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './solana/constants';
+import type { SubmissionEvent } from './tx-submitter';
+
+export interface TokenPoolStatus {
+    mint: PublicKey;
+    tokenProgram: PublicKey; // SPL Token or Token-2022, from the mint's owner
+    registered: boolean;
+    pools: SplInterfaceInfo[]; // initialized pools only
+    poolBalance: BN; // SPL tokens currently held for compressed holders
+}
+
+export interface SplTokenAccount {
+    address: PublicKey;
+    amount: BN;
+    decimals: number;
+}
+
+interface SubmitParams {
+    rpc: Rpc;
+    owner: PublicKey;
+    mint: PublicKey;
+    signTransaction: (tx: Transaction) => Promise<Transaction>;
+    onEvent?: (event: SubmissionEvent) => void;
+}
+
+/**
+ * Whether a mint has a token pool, and the pools compress/decompress can use
+ */
+export async function getTokenPoolStatus(rpc: Rpc, mint: PublicKey): Promise<TokenPoolStatus> {
+    const mintAccount = await rpc.getAccountInfo(mint);
+    if (!mintAccount) throw new Error(`Mint ${mint.toBase58()} not found.`);
+    const tokenProgram = mintAccount.owner;
+
+    let pools: SplInterfaceInfo[] = [];
+    try {
+        pools = (await getSplInterfaceInfos(rpc, mint)).filter(pool => pool.isInitialized);
+    } catch (e: any) {
+        // Thrown when pool 0 does not exist, i.e. the mint was never registered
+        if (!String(e.message).includes('not found')) throw e;
+    }
+
+    return {
+        mint,
+        tokenProgram,
+        registered: pools.length > 0,
+        pools,
+        poolBalance: pools.reduce((sum, pool) => sum.add(pool.balance), bn(0)),
+    };
+}
+
+async function requireTokenPool(rpc: Rpc, mint: PublicKey): Promise<TokenPoolStatus> {
+    const status = await getTokenPoolStatus(rpc, mint);
+    if (!status.registered) {
+        throw new Error(`Mint ${mint.toBase58()} has no compressed token pool. Register it before compressing.`);
+    }
+    return status;
+}
+
+/**
+ * Register a mint with the compressed token program by creating its first token pool
+ */
+export async function registerTokenPool(params: SubmitParams): Promise<string> {
+    const { rpc, owner, mint } = params;
+    const status = await getTokenPoolStatus(rpc, mint);
+    if (status.registered) throw new Error(`Mint ${mint.toBase58()} already has a compressed token pool.`);
+
+    const instruction = await CompressedTokenProgram.createTokenPool({
+        feePayer: owner,
+        mint,
+        tokenProgramId: status.tokenProgram,
+    });
+    return submitLightInstructions({ ...params, payer: owner, instructions: [instruction] });
+}
+
+/**
+ * SPL token accounts of an owner for a mint, largest first
+ */
+export async function fetchSplTokenAccounts(
+    connection: Connection,
+    owner: PublicKey,
+    mint: PublicKey
+): Promise<SplTokenAccount[]> {
+    const { value } = await connection.getParsedTokenAccountsByOwner(owner, { mint });
+    return value
+        .map(({ pubkey, account }) => {
+            const info = account.data.parsed.info.tokenAmount;
+            return { address: pubkey, amount: bn(info.amount), decimals: Number(info.decimals) };
+        })
+        .sort((a, b) => b.amount.cmp(a.amount));
+}
+
+export function associatedTokenAddress(owner: PublicKey, mint: PublicKey, tokenProgram: PublicKey): PublicKey {
+    return PublicKey.findProgramAddressSync(
+        [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+        ASSOCIATED_TOKEN_PROGRAM_ID
+    )[0];
+}
+
+/**
+ * CreateIdempotent instruction of the associated token account program
+ */
+function createAssociatedTokenAccountIdempotent(
+    payer: PublicKey,
+    ata: PublicKey,
+    owner: PublicKey,
+    mint: PublicKey,
+    tokenProgram: PublicKey
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+        keys: [
+            { pubkey: payer, isSigner: true, isWritable: true },
+            { pubkey: ata, isSigner: false, isWritable: true },
+            { pubkey: owner, isSigner: false, isWritable: false },
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+            { pubkey: tokenProgram, isSigner: false, isWritable: false },
+        ],
+        data: Buffer.from([1]),
+    });
+}
+
+/**
+ * Compress `amount` from the owner's largest SPL token account that covers it
+ *
+ * @returns the source account and the SPL balance left in it
+ */
+export async function compressSplTokens(params: SubmitParams & { amount: BN }): Promise<{
+    signature: string;
+    source: PublicKey;
+    remaining: BN;
+}> {
+    const { rpc, owner, mint, amount } = params;
+    const status = await requireTokenPool(rpc, mint);
+
+    const accounts = await fetchSplTokenAccounts(rpc, owner, mint);
+    const source = accounts.find(account => account.amount.gte(amount));
+    if (!source) {
+        const total = accounts.reduce((sum, account) => sum.add(account.amount), bn(0));
+        throw new Error(total.gte(amount)
+            ? `No single SPL token account holds ${amount.toString()}; the balance is split across ${accounts.length} accounts.`
+            : `Insufficient SPL balance. Required ${amount.toString()}, available ${total.toString()}.`);
+    }
+
+    const outputStateTreeInfo = selectStateTreeInfo(await rpc.getStateTreeInfos());
+    const instruction = await CompressedTokenProgram.compress({
+        payer: owner,
+        owner,
+        source: source.address,
+        toAddress: owner,
+        amount,
+        mint,
+        outputStateTreeInfo,
+        tokenPoolInfo: selectSplInterfaceInfo(status.pools),
+    });
+
+    const signature = await submitLightInstructions({ ...params, payer: owner, instructions: [instruction] });
+    return { signature, source: source.address, remaining: source.amount.sub(amount) };
+}
+
+/**
+ * Decompress `amount` into the owner's associated token account
+ *
+ * @returns the destination account and the compressed change returned to the owner
+ */
+export async function decompressTokens(params: SubmitParams & { amount: BN; maxInputs?: number }): Promise<{
+    signature: string;
+    destination: PublicKey;
+    change: BN;
+}> {
+    const { rpc, owner, mint, amount, maxInputs = DEFAULT_MAX_INPUTS } = params;
+    const status = await requireTokenPool(rpc, mint);
+    if (status.poolBalance.lt(amount)) {
+        throw new Error(`The token pool holds only ${status.poolBalance.toString()}; cannot decompress ${amount.toString()}.`);
+    }
+
+    const { inputAccounts, proof } = await selectCompressedInputs(rpc, owner, mint, amount, maxInputs);
+    const inputTotal = inputAccounts.reduce((sum, account) => sum.add(account.parsed.amount), bn(0));
+
+    const destination = associatedTokenAddress(owner, mint, status.tokenProgram);
+    const instructions: TransactionInstruction[] = [];
+    if (!(await rpc.getAccountInfo(destination))) {
+        instructions.push(createAssociatedTokenAccountIdempotent(owner, destination, owner, mint, status.tokenProgram));
+    }
+    instructions.push(await CompressedTokenProgram.decompress({
+        payer: owner,
+        inputCompressedTokenAccounts: inputAccounts,
+        toAddress: destination,
+        amount,
+        recentValidityProof: proof.compressedProof,
+        recentInputStateRootIndices: proof.rootIndices,
+        tokenPoolInfos: selectSplInterfaceInfosForDecompression(status.pools, amount),
+    }));
+
+    const signature = await submitLightInstructions({ ...params, payer: owner, instructions });
+    return { signature, destination, change: inputTotal.sub(amount) };
+}
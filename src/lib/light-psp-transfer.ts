@@ -1,8 +1,17 @@
 import { BN } from '@coral-xyz/anchor';
-import { PublicKey, type AccountMeta } from '@solana/web3.js';
+import {
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+    type AccountMeta,
+    type Connection,
+} from '@solana/web3.js';
 import {
     bn,
     createRpc,
+    defaultStaticAccountsStruct,
+    LightSystemProgram,
     type HashWithTree,
     type ParsedTokenAccount,
     type Rpc,
@@ -10,10 +19,19 @@ import {
     type ValidityProofWithContext,
 } from '@lightprotocol/stateless.js';
 import {
+    CompressedTokenProgram,
+    encodeTransferInstructionData,
     packCompressedTokenAccounts,
     selectMinCompressedTokenAccountsForTransfer,
+    transferAccountsLayout,
+    type CompressedTokenInstructionDataTransfer,
     type TokenTransferOutputData,
 } from '@lightprotocol/compressed-token';
+import { computeBudgetInstructions, planFees } from './fee-planner';
+import { submitTransaction, type SubmissionEvent } from './tx-submitter';
+
+// Input accounts one transfer may consume (the compressed token program's default)
+export const DEFAULT_MAX_INPUTS = 4;
 
 export type CompressedTransferInputs = {
     rpc: Rpc;
@@ -27,8 +45,10 @@ export type CompressedTransferInputs = {
 };
 
 export type CompressedTransferBundle = {
+    owner: PublicKey;
+    mint: PublicKey;
     inputAccounts: ParsedTokenAccount[];
-    inputTokenDataWithContext: unknown[];
+    inputTokenDataWithContext: ReturnType<typeof packCompressedTokenAccounts>['inputTokenDataWithContext'];
     outputCompressedAccounts: TokenTransferOutputData[];
     outputStateMerkleTreeAccountIndices: number[];
     remainingAccountMetas: AccountMeta[];
@@ -112,6 +132,40 @@ const buildProofInputs = (inputAccounts: ParsedTokenAccount[]): HashWithTree[] =
         queue: account.compressedAccount.treeInfo.queue,
     }));
 
+const fetchAllCompressedTokenAccounts = async (rpc: Rpc, owner: PublicKey, mint?: PublicKey) => {
+    const accounts: ParsedTokenAccount[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await rpc.getCompressedTokenAccountsByOwner(owner, { mint, cursor });
+        accounts.push(...page.items);
+        cursor = page.cursor ?? undefined;
+    } while (cursor);
+    return accounts;
+};
+
+/**
+ * Fewest compressed accounts (at most `maxInputs`) covering `amount`, with their validity proof
+ */
+export const selectCompressedInputs = async (
+    rpc: Rpc,
+    owner: PublicKey,
+    mint: PublicKey,
+    amount: BN,
+    maxInputs?: number,
+): Promise<{ inputAccounts: ParsedTokenAccount[]; proof: ValidityProofWithContext }> => {
+    // Every page, so the largest accounts are candidates even past the indexer's first page
+    const compressedTokenAccounts = await fetchAllCompressedTokenAccounts(rpc, owner, mint);
+
+    const [inputAccounts] = selectMinCompressedTokenAccountsForTransfer(
+        compressedTokenAccounts,
+        amount,
+        maxInputs,
+    );
+
+    const proof = await rpc.getValidityProofV0(buildProofInputs(inputAccounts));
+    return { inputAccounts, proof };
+};
+
 export const buildCompressedTransferBundle = async (
     params: CompressedTransferInputs,
 ): Promise<CompressedTransferBundle> => {
@@ -127,18 +181,7 @@ export const buildCompressedTransferBundle = async (
     } = params;
 
     const transferAmount = bn(amount);
-    const compressedTokenAccounts = await rpc.getCompressedTokenAccountsByOwner(
-        owner,
-        { mint },
-    );
-
-    const [inputAccounts] = selectMinCompressedTokenAccountsForTransfer(
-        compressedTokenAccounts.items,
-        transferAmount,
-        maxInputs,
-    );
-
-    const proof = await rpc.getValidityProofV0(buildProofInputs(inputAccounts));
+    const { inputAccounts, proof } = await selectCompressedInputs(rpc, owner, mint, transferAmount, maxInputs);
     const { outputs, totalInputAmount, changeAmount } = buildTransferOutputs(
         inputAccounts,
         recipient,
@@ -169,6 +212,8 @@ export const buildCompressedTransferBundle = async (
     );
 
     return {
+        owner,
+        mint,
         inputAccounts,
         inputTokenDataWithContext,
         outputCompressedAccounts,
@@ -180,3 +225,194 @@ export const buildCompressedTransferBundle = async (
         changeAmount,
     };
 };
+
+export type CompressedHolding = {
+    mint: PublicKey;
+    balance: BN;
+    accounts: number;
+    amounts: BN[]; // per compressed account, largest first
+    // Largest amount one transfer can move when limited to maxInputs accounts
+    maxTransferable: BN;
+};
+
+/**
+ * Largest amount one transfer can move from a holding when spending at most `maxInputs` accounts
+ */
+export const maxTransferableWith = (holding: Pick<CompressedHolding, 'amounts'>, maxInputs: number): BN =>
+    holding.amounts.slice(0, maxInputs).reduce((sum, amount) => sum.add(amount), bn(0));
+
+/**
+ * Compressed token balances of an owner, one entry per mint, largest first
+ */
+export const listCompressedHoldings = async (
+    rpc: Rpc,
+    owner: PublicKey,
+    maxInputs: number = DEFAULT_MAX_INPUTS,
+): Promise<CompressedHolding[]> => {
+    const byMint = new Map<string, ParsedTokenAccount[]>();
+    for (const account of await fetchAllCompressedTokenAccounts(rpc, owner)) {
+        const key = account.parsed.mint.toBase58();
+        byMint.set(key, [...(byMint.get(key) ?? []), account]);
+    }
+
+    const holdings = Array.from(byMint.values()).map(accounts => {
+        const amounts = accounts.map(account => account.parsed.amount).sort((a, b) => b.cmp(a));
+        return {
+            mint: accounts[0].parsed.mint,
+            balance: amounts.reduce((sum, amount) => sum.add(amount), bn(0)),
+            accounts: accounts.length,
+            amounts,
+            maxTransferable: maxTransferableWith({ amounts }, maxInputs),
+        };
+    });
+    return holdings.sort((a, b) => b.balance.cmp(a.balance));
+};
+
+/**
+ * Decimals of an SPL mint (compressed tokens keep the mint's decimals)
+ */
+export const fetchSplMintDecimals = async (connection: Connection, mint: PublicKey): Promise<number> => {
+    const info = await connection.getParsedAccountInfo(mint);
+    const data = info.value?.data;
+    if (!data || !('parsed' in data)) {
+        throw new Error(`${mint.toBase58()} is not an SPL mint.`);
+    }
+    return Number(data.parsed.info.decimals);
+};
+
+/**
+ * Decimals for each holding's mint, keyed by base58 mint (0 when the mint cannot be read)
+ */
+export const resolveHoldingDecimals = async (
+    connection: Connection,
+    holdings: CompressedHolding[],
+): Promise<Record<string, number>> => {
+    const resolved = await Promise.all(holdings.map(async holding => {
+        const mint = holding.mint.toBase58();
+        try {
+            return [mint, await fetchSplMintDecimals(connection, holding.mint)] as const;
+        } catch (e: any) {
+            console.warn(`Could not read decimals for ${mint}:`, e.message);
+            return [mint, 0] as const;
+        }
+    }));
+    return Object.fromEntries(resolved);
+};
+
+/**
+ * Compressed token program transfer instruction for a bundle, signed by the bundle's owner
+ */
+export const buildCompressedTransferInstruction = (
+    bundle: CompressedTransferBundle,
+    payer: PublicKey,
+): TransactionInstruction => {
+    const data = encodeTransferInstructionData({
+        proof: bundle.compressedProof,
+        mint: bundle.mint,
+        delegatedTransfer: null,
+        // stateless.js and compressed-token declare this shape against different Buffer types
+        inputTokenDataWithContext:
+            bundle.inputTokenDataWithContext as CompressedTokenInstructionDataTransfer['inputTokenDataWithContext'],
+        outputCompressedAccounts: bundle.outputCompressedAccounts.map((output, i) => ({
+            owner: output.owner,
+            amount: output.amount,
+            lamports: output.lamports,
+            tlv: output.tlv,
+            merkleTreeIndex: bundle.outputStateMerkleTreeAccountIndices[i],
+        })),
+        compressOrDecompressAmount: null,
+        isCompress: false,
+        cpiContext: null,
+        lamportsChangeAccountMerkleTreeIndex: null,
+    });
+
+    const {
+        accountCompressionAuthority,
+        noopProgram,
+        registeredProgramPda,
+        accountCompressionProgram,
+    } = defaultStaticAccountsStruct();
+
+    const keys = transferAccountsLayout({
+        feePayer: payer,
+        authority: bundle.owner,
+        cpiAuthorityPda: CompressedTokenProgram.deriveCpiAuthorityPda,
+        lightSystemProgram: LightSystemProgram.programId,
+        registeredProgramPda,
+        noopProgram,
+        accountCompressionAuthority,
+        accountCompressionProgram,
+        selfProgram: CompressedTokenProgram.programId,
+        systemProgram: SystemProgram.programId,
+    });
+    keys.push(...bundle.remainingAccountMetas);
+
+    return new TransactionInstruction({ programId: CompressedTokenProgram.programId, keys, data: Buffer.from(data) });
+};
+
+/**
+ * Plan fees for Light instructions, then sign, send and confirm them as one transaction
+ */
+export const submitLightInstructions = async (params: {
+    rpc: Rpc;
+    payer: PublicKey;
+    instructions: TransactionInstruction[];
+    signTransaction: (tx: Transaction) => Promise<Transaction>;
+    onEvent?: (event: SubmissionEvent) => void;
+}): Promise<string> => {
+    const { rpc, payer, instructions, signTransaction, onEvent } = params;
+    const plan = await planFees({ connection: rpc, payer, instructions });
+
+    const transaction = new Transaction().add(...computeBudgetInstructions(plan), ...instructions);
+    return submitTransaction({ connection: rpc, transaction, feePayer: payer, signTransaction, onEvent });
+};
+
+/**
+ * Build, sign, send and confirm a compressed token transfer from the wallet owner
+ */
+export const sendCompressedTokens = async (params: {
+    rpc: Rpc;
+    owner: PublicKey;
+    mint: PublicKey;
+    recipient: PublicKey;
+    amount: BN | number;
+    maxInputs?: number;
+    signTransaction: (tx: Transaction) => Promise<Transaction>;
+    onEvent?: (event: SubmissionEvent) => void;
+}): Promise<{ signature: string; bundle: CompressedTransferBundle }> => {
+    const { rpc, owner, mint, recipient, amount, maxInputs = DEFAULT_MAX_INPUTS, signTransaction, onEvent } = params;
+
+    const bundle = await buildCompressedTransferBundle({ rpc, owner, mint, recipient, amount, maxInputs });
+    const instruction = buildCompressedTransferInstruction(bundle, owner);
+    const signature = await submitLightInstructions({ rpc, payer: owner, instructions: [instruction], signTransaction, onEvent });
+    return { signature, bundle };
+};
+
+/**
+ * Merge the largest `maxInputs` compressed accounts of a mint into one by
+ * transferring their sum back to the owner. Each call spends one transaction
+ * and leaves `maxInputs - 1` fewer accounts.
+ */
+export const consolidateCompressedTokens = async (params: {
+    rpc: Rpc;
+    owner: PublicKey;
+    mint: PublicKey;
+    maxInputs?: number;
+    signTransaction: (tx: Transaction) => Promise<Transaction>;
+    onEvent?: (event: SubmissionEvent) => void;
+}): Promise<{ signature: string; merged: number }> => {
+    const { rpc, owner, mint, maxInputs = DEFAULT_MAX_INPUTS } = params;
+
+    const holding = (await listCompressedHoldings(rpc, owner, maxInputs)).find(h => h.mint.equals(mint));
+    if (!holding || holding.accounts < 2) {
+        throw new Error('Nothing to consolidate: the balance is already in a single compressed account.');
+    }
+
+    const { signature, bundle } = await sendCompressedTokens({
+        ...params,
+        recipient: owner,
+        amount: holding.maxTransferable,
+        maxInputs,
+    });
+    return { signature, merged: bundle.inputAccounts.length };
+};
@@ -0,0 +1,685 @@
+/**
+ * Local Simulator
+ *
+ * Offline stand-in for the Solana RPC, the Light indexer/prover and the Inco
+ * covalidator, so swapExactIn, addLiquidity, the quote math and useIncoSwap
+ * can be exercised without devnet. Enabled with NEXT_PUBLIC_SIMULATOR=true
+ * (or enableSimulator() from scripts, see scripts/simulator-check.ts).
+ *
+ * What it models:
+ * - Pools: plaintext shadow reserves behind Euint128-style handles, fee_bps,
+ *   is_paused and the operator authority, served as compressed accounts whose
+ *   hash changes on every write (stale pool_data is rejected like Light does)
+ * - swap_exact_in: the program's guard (liquidity, fee and k-invariant checks);
+ *   a failed guard zeroes every amount instead of failing the transaction
+ * - Inco transfers: moving more than the balance moves nothing
+ * - Inco encrypt/decrypt: ciphertexts carry the plaintext, handles are looked up
+ * - Light proofs: placeholder proofs with root index 0
+ *
+ * Not modeled: signatures, allowances, lookup tables and instructions of other
+ * programs (they succeed as no-ops).
+ */
+
+import { BN, BorshInstructionCoder, utils, type Idl } from '@coral-xyz/anchor';
+import {
+    Keypair,
+    PublicKey,
+    Transaction,
+    VersionedTransaction,
+    type AccountInfo,
+    type Connection,
+    type TransactionError,
+} from '@solana/web3.js';
+import { batchMerkleTree, batchQueue, placeholderValidityProof, type Rpc } from '@lightprotocol/stateless.js';
+import lightSwapIdl from '@/idl/light_swap_psp.json';
+import { getActiveConfig, PROGRAM_IDS } from './cluster-config';
+import { decodePoolState, encodePoolState, type PoolState } from './pool-state';
+import { derivePoolAddress, derivePoolAuthorityPda } from './swap-client';
+
+// Ciphertext layout: "SIM1" + u128 LE plaintext (small enough for legacy transactions)
+const CIPHERTEXT_TAG = Buffer.from('SIM1');
+
+// IncoAccount layout (see inco-balance.ts)
+const INCO_ACCOUNT_SIZE = 221;
+const INCO_ACCOUNT_DISCRIMINATOR = Buffer.from([112, 234, 85, 188, 136, 127, 133, 93]);
+const AMOUNT_OFFSET = 72;
+const STATE_OFFSET = 121;
+
+// Program errors (light_swap_psp IDL)
+const ERROR_POOL_PAUSED = 6000;
+const ERROR_INVALID_INPUT_MINT = 6001;
+const ERROR_INVALID_OUTPUT_MINT = 6002;
+const ERROR_UNAUTHORIZED = 6003;
+
+// Default pool: 1,000 SOL / 150,000 USDC at 0.3%
+const DEFAULT_RESERVE_A = 1_000n * 10n ** 9n;
+const DEFAULT_RESERVE_B = 150_000n * 10n ** 6n;
+const DEFAULT_FEE_BPS = 30;
+
+/**
+ * Operator of the seeded pools (fixed seed, offline only): scripts sign
+ * add_liquidity / remove_liquidity with it. resetSimulator can name another.
+ */
+export const SIMULATOR_OPERATOR = Keypair.fromSeed(Buffer.alloc(32, 7));
+
+// Faucet drip: 10 SOL / 1,000 USDC
+const FAUCET_AMOUNT_A = 10n * 10n ** 9n;
+const FAUCET_AMOUNT_B = 1_000n * 10n ** 6n;
+
+// Compute units reported per swap program instruction
+const INSTRUCTION_UNITS: Record<string, number> = {
+    initialize_pool: 210_000,
+    add_liquidity: 160_000,
+    remove_liquidity: 180_000,
+    swap_exact_in: 260_000,
+};
+const DEFAULT_UNITS = 1_000;
+
+const instructionCoder = new BorshInstructionCoder(lightSwapIdl as Idl);
+
+interface SimPool {
+    address: PublicKey;
+    state: PoolState; // as stored in the compressed account (handles)
+    reserveA: bigint; // plaintext shadow reserves
+    reserveB: bigint;
+    hash: BN;
+    leafIndex: number;
+}
+
+interface SimTokenAccount {
+    pubkey: PublicKey;
+    mint: PublicKey;
+    owner: PublicKey;
+    handle: string;
+}
+
+interface SimTransaction {
+    slot: number;
+    err: TransactionError | null;
+    logs: string[];
+}
+
+interface SimState {
+    slot: number;
+    nextHandle: bigint;
+    nextHash: number;
+    handles: Map<string, bigint>;
+    pools: Map<string, SimPool>;
+    accounts: Map<string, SimTokenAccount>;
+    transactions: Map<string, SimTransaction>;
+}
+
+interface ExecutionResult {
+    err: TransactionError | null;
+    logs: string[];
+    unitsConsumed: number;
+    state: SimState;
+}
+
+let enabled = process.env.NEXT_PUBLIC_SIMULATOR === 'true';
+let current: SimState | null = null;
+
+export function isSimulatorEnabled(): boolean {
+    return enabled;
+}
+
+/**
+ * Route swap-client, Inco and Light calls to the simulator (for scripts and tests)
+ */
+export function enableSimulator(on: boolean = true) {
+    enabled = on;
+}
+
+function emptyState(): SimState {
+    return {
+        slot: 1,
+        nextHandle: 1n,
+        nextHash: 1,
+        handles: new Map(),
+        pools: new Map(),
+        accounts: new Map(),
+        transactions: new Map(),
+    };
+}
+
+// Copy for dry runs; transactions stay shared since only commits record them
+function cloneState(s: SimState): SimState {
+    return {
+        ...s,
+        handles: new Map(s.handles),
+        pools: new Map(Array.from(s.pools, ([k, p]) => [k, { ...p, state: { ...p.state } }])),
+        accounts: new Map(Array.from(s.accounts, ([k, a]) => [k, { ...a }])),
+    };
+}
+
+function getState(): SimState {
+    if (!current) {
+        current = emptyState();
+        addDefaultPool(current, SIMULATOR_OPERATOR.publicKey);
+    }
+    return current;
+}
+
+/**
+ * Drop all simulated state; the cluster's default pool is re-seeded unless disabled,
+ * operated by `operator` (default SIMULATOR_OPERATOR)
+ */
+export function resetSimulator(options: { seedDefaultPool?: boolean; operator?: PublicKey } = {}) {
+    current = emptyState();
+    if (options.seedDefaultPool ?? true) {
+        addDefaultPool(current, options.operator ?? SIMULATOR_OPERATOR.publicKey);
+    }
+}
+
+// ---------- Handles and ciphertexts ----------
+
+function newHandle(s: SimState, value: bigint): string {
+    // High bit set so handles never collide with the zero handle
+    const handle = (1n << 120n) | s.nextHandle++;
+    s.handles.set(handle.toString(), value);
+    return handle.toString();
+}
+
+function readHandle(s: SimState, handle: string): bigint {
+    if (handle === '0') return 0n;
+    const value = s.handles.get(handle);
+    if (value === undefined) throw new Error(`Unknown handle ${handle}`);
+    return value;
+}
+
+/**
+ * Simulator counterpart of encryptAmount
+ */
+export function simulatorEncrypt(amount: bigint): Buffer {
+    const buf = Buffer.alloc(CIPHERTEXT_TAG.length + 16);
+    CIPHERTEXT_TAG.copy(buf);
+    buf.writeBigUInt64LE(amount & 0xffffffffffffffffn, CIPHERTEXT_TAG.length);
+    buf.writeBigUInt64LE(amount >> 64n, CIPHERTEXT_TAG.length + 8);
+    return buf;
+}
+
+function decryptCiphertext(ciphertext: Buffer): bigint {
+    if (ciphertext.length !== CIPHERTEXT_TAG.length + 16 || !ciphertext.subarray(0, CIPHERTEXT_TAG.length).equals(CIPHERTEXT_TAG)) {
+        throw new Error('Ciphertext was not produced by the simulator');
+    }
+    const lo = ciphertext.readBigUInt64LE(CIPHERTEXT_TAG.length);
+    const hi = ciphertext.readBigUInt64LE(CIPHERTEXT_TAG.length + 8);
+    return (hi << 64n) | lo;
+}
+
+/**
+ * Simulator counterpart of decryptBalances (no signature or allowance needed)
+ */
+export function simulatorDecrypt(handles: string[]): string[] {
+    const s = getState();
+    return handles.map(h => readHandle(s, h).toString());
+}
+
+// ---------- Seeding ----------
+
+function addTokenAccount(s: SimState, pubkey: PublicKey, mint: PublicKey, owner: PublicKey, amount: bigint) {
+    s.accounts.set(pubkey.toBase58(), { pubkey, mint, owner, handle: newHandle(s, amount) });
+}
+
+function addPool(s: SimState, params: {
+    mintA: PublicKey;
+    mintB: PublicKey;
+    reserveA: bigint;
+    reserveB: bigint;
+    feeBps: number;
+    authority: PublicKey;
+    isPaused?: boolean;
+}): SimPool {
+    const address = derivePoolAddress(params.mintA, params.mintB);
+    const pool: SimPool = {
+        address,
+        state: {
+            authority: params.authority,
+            mintA: params.mintA,
+            mintB: params.mintB,
+            reserveAHandle: newHandle(s, params.reserveA),
+            reserveBHandle: newHandle(s, params.reserveB),
+            feeBps: params.feeBps,
+            isPaused: params.isPaused ?? false,
+        },
+        reserveA: params.reserveA,
+        reserveB: params.reserveB,
+        hash: new BN(s.nextHash++),
+        leafIndex: 0,
+    };
+    s.pools.set(address.toBase58(), pool);
+    return pool;
+}
+
+function addDefaultPool(s: SimState, operator: PublicKey) {
+    const { mints, pool } = getActiveConfig();
+    addPool(s, {
+        mintA: mints.a,
+        mintB: mints.b,
+        reserveA: DEFAULT_RESERVE_A,
+        reserveB: DEFAULT_RESERVE_B,
+        feeBps: DEFAULT_FEE_BPS,
+        authority: operator,
+    });
+    addTokenAccount(s, pool.vaultA, mints.a, pool.authority, DEFAULT_RESERVE_A);
+    addTokenAccount(s, pool.vaultB, mints.b, pool.authority, DEFAULT_RESERVE_B);
+}
+
+/**
+ * Create a pool with funded vaults owned by its authority PDA. Returns the vaults.
+ */
+export function seedPool(params: {
+    mintA: PublicKey;
+    mintB: PublicKey;
+    reserveA: bigint;
+    reserveB: bigint;
+    feeBps?: number;
+    authority?: PublicKey; // operator (default SIMULATOR_OPERATOR); add/remove liquidity must be signed by it
+    isPaused?: boolean;
+}): { poolAddress: PublicKey; vaultA: PublicKey; vaultB: PublicKey } {
+    const s = getState();
+    const pool = addPool(s, {
+        ...params,
+        feeBps: params.feeBps ?? DEFAULT_FEE_BPS,
+        authority: params.authority ?? SIMULATOR_OPERATOR.publicKey,
+    });
+    const poolAuthority = derivePoolAuthorityPda(params.mintA, params.mintB);
+    const vaultA = Keypair.generate().publicKey;
+    const vaultB = Keypair.generate().publicKey;
+    addTokenAccount(s, vaultA, params.mintA, poolAuthority, params.reserveA);
+    addTokenAccount(s, vaultB, params.mintB, poolAuthority, params.reserveB);
+    s.slot++;
+    return { poolAddress: pool.address, vaultA, vaultB };
+}
+
+/**
+ * Create a funded IncoAccount
+ */
+export function seedTokenAccount(owner: PublicKey, mint: PublicKey, amount: bigint): PublicKey {
+    const s = getState();
+    const pubkey = Keypair.generate().publicKey;
+    addTokenAccount(s, pubkey, mint, owner, amount);
+    s.slot++;
+    return pubkey;
+}
+
+/**
+ * Simulator counterpart of /api/faucet: creates and funds missing accounts for the cluster mints
+ */
+export function simulatorFaucet(owner: PublicKey): { tokenA: PublicKey; tokenB: PublicKey; created: boolean } {
+    const s = getState();
+    const find = (mint: PublicKey) =>
+        Array.from(s.accounts.values()).find(a => a.owner.equals(owner) && a.mint.equals(mint))?.pubkey;
+
+    const { mints } = getActiveConfig();
+    const existingA = find(mints.a);
+    const existingB = find(mints.b);
+    const tokenA = existingA ?? seedTokenAccount(owner, mints.a, FAUCET_AMOUNT_A);
+    const tokenB = existingB ?? seedTokenAccount(owner, mints.b, FAUCET_AMOUNT_B);
+    return { tokenA, tokenB, created: !existingA || !existingB };
+}
+
+/**
+ * Plaintext reserves of a pool (what the encrypted handles hold)
+ */
+export function getShadowReserves(mintA: PublicKey, mintB: PublicKey): { reserveA: bigint; reserveB: bigint; feeBps: number; isPaused: boolean } | null {
+    const pool = getState().pools.get(derivePoolAddress(mintA, mintB).toBase58());
+    if (!pool) return null;
+    return { reserveA: pool.reserveA, reserveB: pool.reserveB, feeBps: pool.state.feeBps, isPaused: pool.state.isPaused };
+}
+
+// ---------- Program model ----------
+
+/**
+ * The swap program's guard: the swap executes only if the pool can pay out,
+ * the fee covers fee_bps and the constant product does not decrease
+ */
+export function checkSwapGuard(
+    amountIn: bigint,
+    amountOut: bigint,
+    feeAmount: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeBps: number
+): boolean {
+    if (amountIn === 0n || amountOut > reserveOut || feeAmount > amountIn) return false;
+    if (feeAmount < (amountIn * BigInt(feeBps)) / 10000n) return false;
+    const netIn = amountIn - feeAmount;
+    return (reserveIn + netIn) * (reserveOut - amountOut) >= reserveIn * reserveOut;
+}
+
+function programError(code: number, name: string): Error & { customCode: number } {
+    return Object.assign(new Error(`${name} (custom program error: 0x${code.toString(16)})`), { customCode: code });
+}
+
+function requireAccount(s: SimState, pubkey: PublicKey): SimTokenAccount {
+    const account = s.accounts.get(pubkey.toBase58());
+    if (!account) throw new Error(`IncoAccount ${pubkey.toBase58()} does not exist`);
+    return account;
+}
+
+// Light checks pool_data against the account hash; a stale copy fails the proof
+function requirePool(s: SimState, poolData: Buffer): SimPool {
+    const claimed = decodePoolState(poolData);
+    const pool = s.pools.get(derivePoolAddress(claimed.mintA, claimed.mintB).toBase58());
+    if (!pool) throw new Error('Pool account does not exist');
+    if (!encodePoolState(pool.state).equals(poolData)) {
+        throw new Error('pool_data does not match the compressed account (stale pool state)');
+    }
+    return pool;
+}
+
+function writeReserves(s: SimState, pool: SimPool, reserveA: bigint, reserveB: bigint) {
+    pool.reserveA = reserveA;
+    pool.reserveB = reserveB;
+    pool.state.reserveAHandle = newHandle(s, reserveA);
+    pool.state.reserveBHandle = newHandle(s, reserveB);
+    pool.hash = new BN(s.nextHash++);
+    pool.leafIndex++;
+}
+
+// Inco Token transfer CPI: an insufficient balance moves zero
+function transfer(s: SimState, from: SimTokenAccount, to: SimTokenAccount, amount: bigint, logs: string[]) {
+    const incoToken = PROGRAM_IDS.incoToken.toBase58();
+    logs.push(`Program ${incoToken} invoke [2]`, 'Program log: Instruction: Transfer');
+    const balance = readHandle(s, from.handle);
+    const moved = amount <= balance ? amount : 0n;
+    from.handle = newHandle(s, balance - moved);
+    to.handle = newHandle(s, readHandle(s, to.handle) + moved);
+    logs.push(`Program ${incoToken} success`);
+}
+
+function runSwapProgram(s: SimState, accounts: PublicKey[], data: Buffer, logs: string[]): number {
+    const decoded = instructionCoder.decode(data);
+    if (!decoded) throw new Error('Unknown swap program instruction');
+    const args = decoded.data as Record<string, any>;
+    logs.push(`Program log: Instruction: ${decoded.name}`);
+
+    switch (decoded.name) {
+        case 'initialize_pool': {
+            const mintA = args.mint_a as PublicKey;
+            const mintB = args.mint_b as PublicKey;
+            if (s.pools.has(derivePoolAddress(mintA, mintB).toBase58())) {
+                throw new Error('Pool address already exists');
+            }
+            addPool(s, { mintA, mintB, reserveA: 0n, reserveB: 0n, feeBps: args.fee_bps, authority: accounts[1] });
+            break;
+        }
+        case 'add_liquidity':
+        case 'remove_liquidity': {
+            const pool = requirePool(s, Buffer.from(args.pool_data));
+            if (!accounts[1].equals(pool.state.authority)) throw programError(ERROR_UNAUTHORIZED, 'Unauthorized');
+
+            let amountA = decryptCiphertext(Buffer.from(args.amount_a_ciphertext));
+            let amountB = decryptCiphertext(Buffer.from(args.amount_b_ciphertext));
+            if (decoded.name === 'add_liquidity') {
+                writeReserves(s, pool, pool.reserveA + amountA, pool.reserveB + amountB);
+                break;
+            }
+            if (amountA > pool.reserveA || amountB > pool.reserveB) {
+                logs.push('Program log: remove exceeds reserves, amounts zeroed');
+                amountA = 0n;
+                amountB = 0n;
+            }
+            writeReserves(s, pool, pool.reserveA - amountA, pool.reserveB - amountB);
+            break;
+        }
+        case 'swap_exact_in': {
+            const pool = requirePool(s, Buffer.from(args.pool_data));
+            if (pool.state.isPaused) throw programError(ERROR_POOL_PAUSED, 'PoolPaused');
+
+            const aToB = !!args.a_to_b;
+            const [userA, userB, vaultA, vaultB] = accounts.slice(2, 6).map(key => requireAccount(s, key));
+            const sideAMatches = userA.mint.equals(pool.state.mintA) && vaultA.mint.equals(pool.state.mintA);
+            const sideBMatches = userB.mint.equals(pool.state.mintB) && vaultB.mint.equals(pool.state.mintB);
+            if (!(aToB ? sideAMatches : sideBMatches)) throw programError(ERROR_INVALID_INPUT_MINT, 'InvalidInputMint');
+            if (!(aToB ? sideBMatches : sideAMatches)) throw programError(ERROR_INVALID_OUTPUT_MINT, 'InvalidOutputMint');
+
+            let amountIn = decryptCiphertext(Buffer.from(args.amount_in_ciphertext));
+            let amountOut = decryptCiphertext(Buffer.from(args.amount_out_ciphertext));
+            const feeAmount = decryptCiphertext(Buffer.from(args.fee_amount_ciphertext));
+            const [reserveIn, reserveOut] = aToB ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA];
+
+            if (!checkSwapGuard(amountIn, amountOut, feeAmount, reserveIn, reserveOut, pool.state.feeBps)) {
+                logs.push('Program log: swap guard failed, amounts zeroed');
+                amountIn = 0n;
+                amountOut = 0n;
+            }
+
+            const [userIn, vaultIn, vaultOut, userOut] = aToB ? [userA, vaultA, vaultB, userB] : [userB, vaultB, vaultA, userA];
+            transfer(s, userIn, vaultIn, amountIn, logs);
+            transfer(s, vaultOut, userOut, amountOut, logs);
+
+            const newIn = reserveIn + amountIn;
+            const newOut = reserveOut - amountOut;
+            writeReserves(s, pool, aToB ? newIn : newOut, aToB ? newOut : newIn);
+            break;
+        }
+        default:
+            logs.push(`Program log: ${decoded.name} not modeled by the simulator`);
+    }
+    return INSTRUCTION_UNITS[decoded.name] ?? DEFAULT_UNITS;
+}
+
+function toVersioned(tx: Transaction | VersionedTransaction): VersionedTransaction {
+    if (tx instanceof VersionedTransaction) return tx;
+    return VersionedTransaction.deserialize(tx.serialize({ requireAllSignatures: false, verifySignatures: false }));
+}
+
+// Run a transaction against a copy of the state
+function execute(tx: VersionedTransaction): ExecutionResult {
+    const s = cloneState(getState());
+    const logs: string[] = [];
+    let unitsConsumed = 0;
+
+    const message = tx.message;
+    if (message.addressTableLookups.length > 0) {
+        return { err: 'AddressLookupTableNotFound', logs, unitsConsumed, state: s };
+    }
+    const keys = message.staticAccountKeys;
+
+    for (const [index, ix] of message.compiledInstructions.entries()) {
+        const programId = keys[ix.programIdIndex];
+        logs.push(`Program ${programId.toBase58()} invoke [1]`);
+        try {
+            if (programId.equals(PROGRAM_IDS.swap)) {
+                unitsConsumed += runSwapProgram(s, ix.accountKeyIndexes.map(i => keys[i]), Buffer.from(ix.data), logs);
+            } else {
+                unitsConsumed += DEFAULT_UNITS;
+            }
+        } catch (e: any) {
+            logs.push(`Program log: ${e.message}`, `Program ${programId.toBase58()} failed`);
+            const error = e.customCode !== undefined ? { Custom: e.customCode } : 'InvalidAccountData';
+            return { err: { InstructionError: [index, error] }, logs, unitsConsumed, state: s };
+        }
+        logs.push(`Program ${programId.toBase58()} success`);
+    }
+
+    return { err: null, logs, unitsConsumed, state: s };
+}
+
+// Same wording as the RPC's preflight errors
+function describeError(err: TransactionError): string {
+    const [index, error] = (err as any).InstructionError ?? [];
+    if (index === undefined) return JSON.stringify(err);
+    if (error?.Custom !== undefined) {
+        return `Error processing Instruction ${index}: custom program error: 0x${error.Custom.toString(16)}`;
+    }
+    return `Error processing Instruction ${index}: ${JSON.stringify(error)}`;
+}
+
+// ---------- Light RPC ----------
+
+function compressedPoolAccount(pool: SimPool) {
+    return {
+        address: Array.from(pool.address.toBytes()),
+        hash: pool.hash,
+        leafIndex: pool.leafIndex,
+        treeInfo: { tree: new PublicKey(batchMerkleTree), queue: new PublicKey(batchQueue) },
+        owner: PROGRAM_IDS.swap,
+        lamports: new BN(0),
+        data: { discriminator: [], data: encodePoolState(pool.state), dataHash: [] },
+    };
+}
+
+/**
+ * Simulator counterpart of createLightRpc (indexer reads and validity proofs)
+ */
+export function createSimulatedLightRpc(): Rpc {
+    const pools = () => Array.from(getState().pools.values());
+    const rpc = {
+        getIndexerSlot: async () => getState().slot,
+        getCompressedAccount: async (address: BN) => {
+            const pool = pools().find(p => new BN(p.address.toBytes()).eq(address));
+            return pool ? compressedPoolAccount(pool) : null;
+        },
+        getCompressedAccountsByOwner: async (owner: PublicKey) => ({
+            items: owner.equals(PROGRAM_IDS.swap) ? pools().map(compressedPoolAccount) : [],
+            cursor: null,
+        }),
+        getValidityProofV0: async (hashes: unknown[] = [], newAddresses: unknown[] = []) => ({
+            compressedProof: placeholderValidityProof(),
+            rootIndices: [...hashes, ...newAddresses].map(() => 0),
+            roots: [],
+            leafIndices: [],
+            leaves: [],
+            treeInfos: [],
+            proveByIndices: hashes.map(() => true),
+        }),
+    };
+    return rpc as unknown as Rpc;
+}
+
+// ---------- Solana RPC ----------
+
+function incoAccountInfo(account: SimTokenAccount): AccountInfo<Buffer> {
+    const data = Buffer.alloc(INCO_ACCOUNT_SIZE);
+    INCO_ACCOUNT_DISCRIMINATOR.copy(data, 0);
+    account.mint.toBuffer().copy(data, 8);
+    account.owner.toBuffer().copy(data, 40);
+    const handle = BigInt(account.handle);
+    data.writeBigUInt64LE(handle & 0xffffffffffffffffn, AMOUNT_OFFSET);
+    data.writeBigUInt64LE(handle >> 64n, AMOUNT_OFFSET + 8);
+    data[STATE_OFFSET] = 1; // Initialized
+    return { data, executable: false, lamports: 2_039_280, owner: PROGRAM_IDS.incoToken, rentEpoch: 0 };
+}
+
+function matchesFilters(data: Buffer, filters: any[] = []): boolean {
+    return filters.every(filter => {
+        if ('dataSize' in filter) return data.length === filter.dataSize;
+        if ('memcmp' in filter) {
+            const bytes = Buffer.from(utils.bytes.bs58.decode(filter.memcmp.bytes));
+            return data.subarray(filter.memcmp.offset, filter.memcmp.offset + bytes.length).equals(bytes);
+        }
+        return true;
+    });
+}
+
+function blockhashForSlot(slot: number): string {
+    const bytes = Buffer.alloc(32, 7);
+    bytes.writeUInt32LE(slot, 0);
+    return utils.bytes.bs58.encode(bytes);
+}
+
+/**
+ * The subset of Connection the app uses, answered from the simulated state
+ */
+function simulatedConnection() {
+    const context = () => ({ slot: getState().slot });
+
+    return {
+        rpcEndpoint: 'simulator',
+        commitment: 'confirmed',
+
+        getSlot: async () => getState().slot,
+        getBlockHeight: async () => getState().slot,
+        getLatestBlockhash: async () => {
+            const slot = getState().slot;
+            return { blockhash: blockhashForSlot(slot), lastValidBlockHeight: slot + 150 };
+        },
+        getRecentPrioritizationFees: async () => [],
+        getAddressLookupTable: async () => ({ context: context(), value: null }),
+        getSignaturesForAddress: async () => [],
+        getTransactions: async (signatures: string[]) => signatures.map(() => null),
+
+        getAccountInfo: async (pubkey: PublicKey) => {
+            const account = getState().accounts.get(pubkey.toBase58());
+            return account ? incoAccountInfo(account) : null;
+        },
+        getProgramAccounts: async (programId: PublicKey, config?: { filters?: any[] }) => {
+            if (!programId.equals(PROGRAM_IDS.incoToken)) return [];
+            return Array.from(getState().accounts.values())
+                .map(account => ({ pubkey: account.pubkey, account: incoAccountInfo(account) }))
+                .filter(({ account }) => matchesFilters(account.data, config?.filters));
+        },
+
+        simulateTransaction: async (
+            tx: Transaction | VersionedTransaction,
+            config?: any,
+            includeAccounts?: boolean | PublicKey[]
+        ) => {
+            const result = execute(toVersioned(tx));
+            // Versioned form takes { accounts: { addresses } }, legacy form a key list
+            const addresses: string[] = Array.isArray(includeAccounts)
+                ? includeAccounts.map(k => k.toBase58())
+                : config?.accounts?.addresses ?? [];
+            const accounts = addresses.map(address => {
+                const account = result.state.accounts.get(address);
+                if (!account) return null;
+                const info = incoAccountInfo(account);
+                return { ...info, owner: info.owner.toBase58(), data: [info.data.toString('base64'), 'base64'] };
+            });
+            return {
+                context: context(),
+                value: {
+                    err: result.err,
+                    logs: result.logs,
+                    unitsConsumed: result.unitsConsumed,
+                    accounts: addresses.length > 0 ? accounts : null,
+                    returnData: null,
+                },
+            };
+        },
+
+        sendRawTransaction: async (raw: Buffer | Uint8Array) => {
+            const tx = VersionedTransaction.deserialize(raw);
+            const signature = utils.bytes.bs58.encode(tx.signatures[0]);
+            const s = getState();
+            // Rebroadcasts of a landed transaction are no-ops
+            if (s.transactions.has(signature)) return signature;
+
+            const result = execute(tx);
+            if (result.err) {
+                throw Object.assign(new Error(`Transaction simulation failed: ${describeError(result.err)}`), {
+                    logs: result.logs,
+                });
+            }
+            result.state.slot++;
+            result.state.transactions.set(signature, { slot: result.state.slot, err: null, logs: result.logs });
+            current = result.state;
+            return signature;
+        },
+        getSignatureStatuses: async (signatures: string[]) => ({
+            context: context(),
+            value: signatures.map(signature => {
+                const landed = getState().transactions.get(signature);
+                return landed
+                    ? { slot: landed.slot, confirmations: null, err: landed.err, confirmationStatus: 'finalized' as const }
+                    : null;
+            }),
+        }),
+        confirmTransaction: async (strategy: string | { signature: string }) => {
+            const signature = typeof strategy === 'string' ? strategy : strategy.signature;
+            const landed = getState().transactions.get(signature);
+            if (!landed) throw new Error(`Transaction ${signature} was not sent to the simulator`);
+            return { context: context(), value: { err: landed.err } };
+        },
+    };
+}
+
+/**
+ * Simulator counterpart of the wallet-adapter Connection
+ */
+export function createSimulatedConnection(): Connection {
+    return simulatedConnection() as unknown as Connection;
+}
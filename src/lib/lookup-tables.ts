@@ -0,0 +1,289 @@
+/**
+ * Address Lookup Table Lifecycle
+ *
+ * Each pool gets its own lookup table, owned by the pool authority, holding the
+ * static accounts every swap_exact_in references:
+ * - Light system accounts and the pool's state tree / queue, address tree, output queue
+ * - pool authority PDA, vaults and mints
+ * - swap, Inco Lightning and Inco Token programs
+ *
+ * Tables are discovered on-chain by authority, checked for coverage, and
+ * re-read after every extend so new addresses are used right away.
+ * Pools without a table fall back to the shared table in devnet-config.json.
+ */
+
+import {
+    AddressLookupTableAccount,
+    AddressLookupTableProgram,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    type TransactionInstruction,
+} from '@solana/web3.js';
+import { PackedAccounts, SystemAccountMetaConfig } from '@lightprotocol/stateless.js';
+import {
+    fetchLookupTable,
+    fetchPoolState,
+    LIGHT_SWAP_PROGRAM_ID,
+    INCO_LIGHTNING_PROGRAM_ID,
+    INCO_TOKEN_PROGRAM_ID,
+    LIGHT_BATCH_ADDRESS_TREE,
+    LIGHT_OUTPUT_QUEUE,
+} from './swap-client';
+import { planFees, computeBudgetInstructions } from './fee-planner';
+import type { PoolEntry } from './pool-registry';
+
+// LookupTableMeta: type (4) + deactivation slot (8) + last extended slot (8) + start index (1) + option tag (1)
+const LOOKUP_TABLE_AUTHORITY_OFFSET = 22;
+
+// Addresses per extend instruction (keeps each transaction under the packet limit)
+const EXTEND_CHUNK_SIZE = 25;
+
+// Create/extend are cheap; used only when the planner cannot simulate (table not created yet)
+const LOOKUP_TABLE_COMPUTE_UNITS = 50_000;
+
+export interface LookupTableCoverage {
+    table: PublicKey;
+    covered: number;
+    missing: PublicKey[];
+}
+
+// Pool address → its own lookup table (null = none found, use the shared table)
+const poolTableCache = new Map<string, PublicKey | null>();
+
+function uniqueKeys(keys: PublicKey[]): PublicKey[] {
+    const seen = new Map<string, PublicKey>();
+    for (const key of keys) seen.set(key.toBase58(), key);
+    return Array.from(seen.values());
+}
+
+/**
+ * Static accounts a swap_exact_in on this pool references
+ * (everything except the signer and the user's own token accounts)
+ */
+export async function poolLookupAddresses(pool: PoolEntry): Promise<PublicKey[]> {
+    const poolState = await fetchPoolState(pool.state.mintA, pool.state.mintB);
+
+    // Same remaining accounts as buildPoolStateTransition
+    const packedAccounts = new PackedAccounts();
+    packedAccounts.addSystemAccountsV2(SystemAccountMetaConfig.new(LIGHT_SWAP_PROGRAM_ID));
+    if (poolState) {
+        packedAccounts.insertOrGet(poolState.treeInfo.tree);
+        packedAccounts.insertOrGet(poolState.treeInfo.queue);
+    }
+    packedAccounts.insertOrGet(LIGHT_BATCH_ADDRESS_TREE);
+    packedAccounts.insertOrGet(LIGHT_OUTPUT_QUEUE);
+    const { remainingAccounts } = packedAccounts.toAccountMetas();
+
+    return uniqueKeys([
+        ...remainingAccounts.map((acct: any) => acct.pubkey as PublicKey),
+        LIGHT_SWAP_PROGRAM_ID,
+        INCO_LIGHTNING_PROGRAM_ID,
+        INCO_TOKEN_PROGRAM_ID,
+        SystemProgram.programId,
+        ComputeBudgetProgram.programId,
+        pool.authority,
+        pool.state.mintA,
+        pool.state.mintB,
+        ...(pool.vaultA ? [pool.vaultA] : []),
+        ...(pool.vaultB ? [pool.vaultB] : []),
+    ]);
+}
+
+/**
+ * Which of `addresses` a table does not hold
+ */
+export function checkLookupTableCoverage(
+    table: AddressLookupTableAccount,
+    addresses: PublicKey[]
+): LookupTableCoverage {
+    const inTable = new Set(table.state.addresses.map(a => a.toBase58()));
+    const missing = addresses.filter(a => !inTable.has(a.toBase58()));
+    return { table: table.key, covered: addresses.length - missing.length, missing };
+}
+
+/**
+ * Check a table against every static account swap_exact_in uses on this pool
+ */
+export async function checkPoolLookupTable(
+    pool: PoolEntry,
+    table: AddressLookupTableAccount
+): Promise<LookupTableCoverage> {
+    return checkLookupTableCoverage(table, await poolLookupAddresses(pool));
+}
+
+/**
+ * Find the pool's own lookup table: an active table owned by the pool
+ * authority that holds the pool's vaults and authority PDA
+ */
+export async function findPoolLookupTable(
+    connection: Connection,
+    pool: PoolEntry,
+    options: { force?: boolean } = {}
+): Promise<AddressLookupTableAccount | null> {
+    const key = pool.address.toBase58();
+    if (!options.force && poolTableCache.has(key)) {
+        const address = poolTableCache.get(key);
+        return address ? fetchLookupTable(connection, address) : null;
+    }
+
+    const required = [pool.authority, ...(pool.vaultA ? [pool.vaultA] : []), ...(pool.vaultB ? [pool.vaultB] : [])];
+
+    let found: AddressLookupTableAccount | null = null;
+    try {
+        const accounts = await connection.getProgramAccounts(AddressLookupTableProgram.programId, {
+            filters: [{ memcmp: { offset: LOOKUP_TABLE_AUTHORITY_OFFSET, bytes: pool.state.authority.toBase58() } }],
+        });
+        for (const { pubkey, account } of accounts) {
+            const table = new AddressLookupTableAccount({
+                key: pubkey,
+                state: AddressLookupTableAccount.deserialize(account.data),
+            });
+            if (!table.isActive()) continue;
+            if (checkLookupTableCoverage(table, required).missing.length === 0) {
+                found = table;
+                break;
+            }
+        }
+    } catch (e: any) {
+        console.warn(`Lookup table discovery failed for pool ${key}:`, e.message);
+        return null;
+    }
+
+    poolTableCache.set(key, found?.key ?? null);
+    if (found) await fetchLookupTable(connection, found.key, { force: true });
+    return found;
+}
+
+/**
+ * Lookup tables for a transaction touching these pools: each pool's own table,
+ * plus the shared table when any pool has none
+ */
+export async function resolveLookupTables(
+    connection: Connection,
+    pools: PoolEntry[]
+): Promise<AddressLookupTableAccount[]> {
+    const tables = new Map<string, AddressLookupTableAccount>();
+    let needsShared = false;
+    for (const pool of pools) {
+        const table = await findPoolLookupTable(connection, pool);
+        if (table) {
+            tables.set(table.key.toBase58(), table);
+        } else {
+            needsShared = true;
+        }
+    }
+    if (needsShared) {
+        const shared = await fetchLookupTable(connection);
+        if (shared) tables.set(shared.key.toBase58(), shared);
+    }
+    return Array.from(tables.values());
+}
+
+/**
+ * Re-read a table after it was created or extended and remember it for the pool
+ */
+export async function refreshPoolLookupTable(
+    connection: Connection,
+    pool: PoolEntry,
+    table: PublicKey
+): Promise<AddressLookupTableAccount | null> {
+    const account = await fetchLookupTable(connection, table, { force: true });
+    poolTableCache.set(pool.address.toBase58(), account ? table : null);
+    return account;
+}
+
+async function lookupTableTransaction(
+    connection: Connection,
+    authority: PublicKey,
+    ixs: TransactionInstruction[]
+): Promise<Transaction> {
+    const feePlan = await planFees({
+        connection,
+        payer: authority,
+        instructions: ixs,
+        fallbackUnits: LOOKUP_TABLE_COMPUTE_UNITS,
+    });
+    const tx = new Transaction();
+    tx.add(...computeBudgetInstructions(feePlan), ...ixs);
+    return tx;
+}
+
+function extendInstructions(
+    lookupTable: PublicKey,
+    authority: PublicKey,
+    addresses: PublicKey[]
+): TransactionInstruction[] {
+    const ixs: TransactionInstruction[] = [];
+    for (let i = 0; i < addresses.length; i += EXTEND_CHUNK_SIZE) {
+        ixs.push(AddressLookupTableProgram.extendLookupTable({
+            lookupTable,
+            authority,
+            payer: authority,
+            addresses: addresses.slice(i, i + EXTEND_CHUNK_SIZE),
+        }));
+    }
+    return ixs;
+}
+
+/**
+ * Build the transactions that create a pool's lookup table and fill it.
+ * Must be sent in order; addresses become usable one slot after each extend.
+ */
+export async function buildCreatePoolLookupTable(
+    connection: Connection,
+    authority: PublicKey,
+    pool: PoolEntry
+): Promise<{ lookupTable: PublicKey; addresses: PublicKey[]; transactions: Transaction[] }> {
+    if (!pool.state.authority.equals(authority)) {
+        throw new Error('Only the pool authority can create the pool lookup table');
+    }
+
+    const addresses = await poolLookupAddresses(pool);
+    const recentSlot = await connection.getSlot('finalized');
+    const [createIx, lookupTable] = AddressLookupTableProgram.createLookupTable({
+        authority,
+        payer: authority,
+        recentSlot,
+    });
+
+    // First extend rides along with the create
+    const [firstExtend, ...restExtends] = extendInstructions(lookupTable, authority, addresses);
+    const transactions = [await lookupTableTransaction(connection, authority, [createIx, firstExtend])];
+    for (const ix of restExtends) {
+        transactions.push(await lookupTableTransaction(connection, authority, [ix]));
+    }
+
+    console.log('Pool lookup table:', {
+        pool: pool.address.toBase58(),
+        lookupTable: lookupTable.toBase58(),
+        addresses: addresses.length,
+        transactions: transactions.length,
+    });
+
+    return { lookupTable, addresses, transactions };
+}
+
+/**
+ * Build the transactions that add whatever a pool's table is missing
+ * (e.g. the pool moved to a new state tree)
+ */
+export async function buildExtendPoolLookupTable(
+    connection: Connection,
+    authority: PublicKey,
+    pool: PoolEntry,
+    table: AddressLookupTableAccount
+): Promise<{ missing: PublicKey[]; transactions: Transaction[] }> {
+    if (!table.state.authority?.equals(authority)) {
+        throw new Error('Connected wallet is not the lookup table authority');
+    }
+
+    const { missing } = await checkPoolLookupTable(pool, table);
+    const transactions: Transaction[] = [];
+    for (const ix of extendInstructions(table.key, authority, missing)) {
+        transactions.push(await lookupTableTransaction(connection, authority, [ix]));
+    }
+    return { missing, transactions };
+}
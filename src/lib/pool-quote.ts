@@ -0,0 +1,159 @@
+/**
+ * Pool Quote
+ *
+ * Prices swaps against the pool's actual reserves instead of fixed numbers.
+ * Reserves live in the compressed pool account as Euint128 handles, so they are
+ * revealed through Inco attested decrypt and cached per handle pair — every swap
+ * or liquidity change produces new handles, which naturally invalidates the cache.
+ *
+ * Exact-output quotes run the curve backwards and still map onto swap_exact_in:
+ * the buffered input is sent as amount-in and the requested output as amount-out.
+ * Exact-in quotes with a slippage tolerance carry the minimum output instead of
+ * the curve's output (see swap-settings.ts).
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { fetchPoolState, computeSwapQuote, computeSwapQuoteExactOut, encryptAmount } from './swap-client';
+import { decryptBalances } from './inco-balance';
+import { DEFAULT_SLIPPAGE_BPS } from './swap-settings';
+
+export interface PoolReserves {
+    poolAddress: PublicKey;
+    reserveA: bigint;
+    reserveB: bigint;
+    feeBps: bigint;
+    reserveAHandle: string;
+    reserveBHandle: string;
+}
+
+export interface SwapQuote {
+    aToB: boolean;
+    amountIn: bigint;
+    amountOut: bigint; // encrypted as amount-out (the minimum when slippage applies)
+    expectedAmountOut: bigint; // curve output at the current reserves
+    feeAmount: bigint;
+    priceImpactBps: number;
+    reserves: PoolReserves;
+}
+
+export interface SwapCiphertexts {
+    amountInCiphertext: Buffer;
+    amountOutCiphertext: Buffer;
+    feeAmountCiphertext: Buffer;
+}
+
+// Decrypted reserves keyed by pool address + reserve handles
+const reservesCache = new Map<string, PoolReserves>();
+
+/**
+ * Fetch the pool named by the mint pair and decrypt its reserves.
+ * Requires a wallet signature for attested decrypt unless the handles are cached.
+ */
+export async function fetchPoolReserves(
+    mintA: PublicKey,
+    mintB: PublicKey,
+    walletAddress: PublicKey,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<PoolReserves> {
+    const poolState = await fetchPoolState(mintA, mintB);
+    if (!poolState) {
+        throw new Error('Pool not initialized. Please initialize pool first.');
+    }
+
+    const { reserveAHandle, reserveBHandle } = poolState.pool;
+    const feeBps = BigInt(poolState.pool.feeBps);
+    const cacheKey = `${poolState.poolAddress.toBase58()}:${reserveAHandle}:${reserveBHandle}`;
+    const cached = reservesCache.get(cacheKey);
+    if (cached) return cached;
+
+    let plaintexts: string[];
+    try {
+        plaintexts = await decryptBalances([reserveAHandle, reserveBHandle], walletAddress, signMessage);
+    } catch (e: any) {
+        throw new Error(`Cannot read pool reserves: ${e.message}`);
+    }
+
+    const reserves: PoolReserves = {
+        poolAddress: poolState.poolAddress,
+        reserveA: BigInt(plaintexts[0]),
+        reserveB: BigInt(plaintexts[1]),
+        feeBps,
+        reserveAHandle,
+        reserveBHandle,
+    };
+
+    console.log('Pool reserves:', {
+        pool: reserves.poolAddress.toBase58(),
+        reserveA: reserves.reserveA.toString(),
+        reserveB: reserves.reserveB.toString(),
+        feeBps: reserves.feeBps.toString(),
+    });
+
+    reservesCache.set(cacheKey, reserves);
+    return reserves;
+}
+
+/**
+ * Quote an exact-in swap against decrypted pool reserves
+ * @param aToB - true = swap token A for B, false = swap B for A
+ * @param slippageBps - tolerance; the quote's amountOut becomes the minimum output
+ */
+export function quoteExactIn(amountIn: bigint, aToB: boolean, reserves: PoolReserves, slippageBps: number = 0): SwapQuote {
+    const reserveIn = aToB ? reserves.reserveA : reserves.reserveB;
+    const reserveOut = aToB ? reserves.reserveB : reserves.reserveA;
+    const { amountOut, feeAmount, priceImpactBps, minimumAmountOut } = computeSwapQuote(
+        amountIn,
+        reserveIn,
+        reserveOut,
+        reserves.feeBps,
+        { slippageBps }
+    );
+    return { aToB, amountIn, amountOut: minimumAmountOut, expectedAmountOut: amountOut, feeAmount, priceImpactBps, reserves };
+}
+
+/**
+ * Quote an exact-output swap: the input needed to receive exactly `amountOut`,
+ * plus `bufferBps`. The surplus input stays in the pool, and the swap still clears
+ * the guard if the price moved against the user by up to the buffer.
+ * Returns a zero quote when the pool cannot pay `amountOut`.
+ */
+export function quoteExactOut(
+    amountOut: bigint,
+    aToB: boolean,
+    reserves: PoolReserves,
+    bufferBps: number = DEFAULT_SLIPPAGE_BPS
+): SwapQuote {
+    const reserveIn = aToB ? reserves.reserveA : reserves.reserveB;
+    const reserveOut = aToB ? reserves.reserveB : reserves.reserveA;
+    const { amountIn } = computeSwapQuoteExactOut(amountOut, reserveIn, reserveOut, reserves.feeBps);
+    if (amountIn === 0n) {
+        return { aToB, amountIn: 0n, amountOut: 0n, expectedAmountOut: 0n, feeAmount: 0n, priceImpactBps: 0, reserves };
+    }
+
+    // Impact of the unbuffered input; the buffer is a tolerance, not part of the price
+    const { priceImpactBps } = computeSwapQuote(amountIn, reserveIn, reserveOut, reserves.feeBps);
+    const buffered = amountIn + (amountIn * BigInt(bufferBps) + 9999n) / 10000n;
+    return {
+        aToB,
+        amountIn: buffered,
+        amountOut,
+        expectedAmountOut: amountOut,
+        feeAmount: (buffered * reserves.feeBps) / 10000n,
+        priceImpactBps,
+        reserves,
+    };
+}
+
+/**
+ * Encrypt a quote into the ciphertexts expected by swapExactIn
+ */
+export async function encryptSwapQuote(quote: SwapQuote): Promise<SwapCiphertexts> {
+    if (quote.amountOut === 0n) {
+        throw new Error('Pool has insufficient liquidity for this swap.');
+    }
+    return {
+        amountInCiphertext: await encryptAmount(quote.amountIn),
+        amountOutCiphertext: await encryptAmount(quote.amountOut),
+        feeAmountCiphertext: await encryptAmount(quote.feeAmount),
+    };
+}
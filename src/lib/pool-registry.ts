@@ -0,0 +1,215 @@
+/**
+ * Pool Registry
+ *
+ * Discovers every pool owned by the light_swap_psp program through the Light
+ * indexer and resolves the on-chain accounts each pool needs for swaps:
+ * - pool authority PDA (derived from the mint pair)
+ * - pool vaults (the single IncoAccount owned by the pool authority for each mint)
+ * - token metadata for the UI (symbol, decimals)
+ */
+
+import { BorshAccountsCoder, BN, type Idl } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+    createLightRpc,
+    derivePoolAddress,
+    derivePoolAuthorityPda,
+    LIGHT_SWAP_PROGRAM_ID,
+    INCO_TOKEN_PROGRAM_ID,
+} from './swap-client';
+import { getActiveConfig } from './cluster-config';
+import { decodePoolState, POOL_STATE_SIZE, type PoolState } from './pool-state';
+import { CONFIDENTIAL_DECIMALS } from './solana/constants';
+
+const INDEXER_PAGE_SIZE = 100;
+
+export interface TokenInfo {
+    symbol: string;
+    mint: PublicKey;
+    decimals: number;
+    icon: string;
+}
+
+export interface PoolEntry {
+    address: PublicKey;
+    state: PoolState;
+    authority: PublicKey;
+    vaultA: PublicKey | null;
+    vaultB: PublicKey | null;
+    tokenA: TokenInfo;
+    tokenB: TokenInfo;
+}
+
+/**
+ * Tokens with known display metadata (the active cluster's faucet mints);
+ * anything else falls back to on-chain decimals
+ */
+export function defaultTokens(): TokenInfo[] {
+    const { mints } = getActiveConfig();
+    return [
+        { symbol: 'SOL', mint: mints.a, decimals: 9, icon: '◎' },
+        { symbol: 'USDC', mint: mints.b, decimals: 6, icon: '$' },
+    ];
+}
+
+let incoMintCoder: BorshAccountsCoder | null = null;
+
+/**
+ * Read IncoMint.decimals using the inco_token IDL
+ */
+async function fetchMintDecimals(connection: Connection, mint: PublicKey): Promise<number> {
+    try {
+        if (!incoMintCoder) {
+            const incoTokenIdl = await fetch('/idl/inco_token.json').then(r => r.json());
+            incoMintCoder = new BorshAccountsCoder(incoTokenIdl as Idl);
+        }
+        const info = await connection.getAccountInfo(mint);
+        if (!info) throw new Error('mint account not found');
+        const decoded = incoMintCoder.decode('IncoMint', info.data);
+        return Number(decoded.decimals);
+    } catch (e: any) {
+        console.warn(`Could not read decimals for ${mint.toBase58()}, using default:`, e.message);
+        return CONFIDENTIAL_DECIMALS;
+    }
+}
+
+/**
+ * Resolve display metadata for a confidential mint
+ */
+export async function resolveTokenInfo(connection: Connection, mint: PublicKey): Promise<TokenInfo> {
+    const known = defaultTokens().find(t => t.mint.equals(mint));
+    if (known) return known;
+
+    const decimals = await fetchMintDecimals(connection, mint);
+    const base58 = mint.toBase58();
+    return { symbol: base58.slice(0, 4), mint, decimals, icon: '●' };
+}
+
+/**
+ * Find the pool vault for a mint: the IncoAccount owned by the pool authority.
+ * Vaults are plain keypair accounts, so outside the cluster config there is no
+ * derived address to check against; the lookup only answers when exactly one
+ * account matches and returns null when the vault is missing or ambiguous.
+ */
+export async function resolvePoolVault(
+    connection: Connection,
+    authority: PublicKey,
+    mint: PublicKey
+): Promise<PublicKey | null> {
+    // Vaults of the cluster config's pool are trusted without an on-chain lookup
+    const { mints, pool } = getActiveConfig();
+    if (authority.equals(pool.authority)) {
+        if (mint.equals(mints.a)) return pool.vaultA;
+        if (mint.equals(mints.b)) return pool.vaultB;
+    }
+
+    const accounts = await connection.getProgramAccounts(INCO_TOKEN_PROGRAM_ID, {
+        filters: [
+            { dataSize: 221 }, // IncoAccount size
+            { memcmp: { offset: 8, bytes: mint.toBase58() } },
+            { memcmp: { offset: 40, bytes: authority.toBase58() } },
+        ],
+    });
+    // getProgramAccounts has no order, so picking one of several could change the vault between calls
+    if (accounts.length > 1) {
+        console.warn(
+            `Pool authority ${authority.toBase58()} owns ${accounts.length} accounts for ${mint.toBase58()}; vault is ambiguous:`,
+            accounts.map(a => a.pubkey.toBase58())
+        );
+        return null;
+    }
+    return accounts[0]?.pubkey ?? null;
+}
+
+/**
+ * List every pool owned by the swap program, with vaults and token metadata resolved
+ */
+export async function listPools(connection: Connection): Promise<PoolEntry[]> {
+    const lightRpc = createLightRpc();
+    const pools: { address: PublicKey; state: PoolState }[] = [];
+
+    let cursor: string | undefined;
+    do {
+        const page = await lightRpc.getCompressedAccountsByOwner(LIGHT_SWAP_PROGRAM_ID, {
+            cursor,
+            limit: new BN(INDEXER_PAGE_SIZE),
+        });
+
+        for (const acc of page.items) {
+            const data = acc.data?.data;
+            if (!acc.address || !data || data.length < POOL_STATE_SIZE) continue;
+
+            let state: PoolState;
+            try {
+                state = decodePoolState(Buffer.from(data));
+            } catch {
+                continue;
+            }
+
+            // Only accept accounts living at the address derived from their own mints
+            const address = new PublicKey(acc.address);
+            if (!derivePoolAddress(state.mintA, state.mintB).equals(address)) continue;
+
+            pools.push({ address, state });
+        }
+
+        cursor = page.cursor ?? undefined;
+    } while (cursor);
+
+    const entries = await Promise.all(pools.map(async ({ address, state }) => {
+        const authority = derivePoolAuthorityPda(state.mintA, state.mintB);
+        const [vaultA, vaultB, tokenA, tokenB] = await Promise.all([
+            resolvePoolVault(connection, authority, state.mintA),
+            resolvePoolVault(connection, authority, state.mintB),
+            resolveTokenInfo(connection, state.mintA),
+            resolveTokenInfo(connection, state.mintB),
+        ]);
+        return { address, state, authority, vaultA, vaultB, tokenA, tokenB };
+    }));
+
+    console.log('Pool registry:', entries.map(p => `${p.tokenA.symbol}/${p.tokenB.symbol} ${p.address.toBase58()}`));
+    return entries;
+}
+
+/**
+ * Find the pool trading a pair in either order.
+ * Returns the swap direction relative to the pool's mint A/B.
+ */
+export function findPool(
+    pools: PoolEntry[],
+    fromMint: PublicKey,
+    toMint: PublicKey
+): { pool: PoolEntry; aToB: boolean } | null {
+    for (const pool of pools) {
+        if (pool.state.mintA.equals(fromMint) && pool.state.mintB.equals(toMint)) {
+            return { pool, aToB: true };
+        }
+        if (pool.state.mintB.equals(fromMint) && pool.state.mintA.equals(toMint)) {
+            return { pool, aToB: false };
+        }
+    }
+    return null;
+}
+
+/**
+ * Unique tokens across all pools
+ */
+export function listPoolTokens(pools: PoolEntry[]): TokenInfo[] {
+    const tokens = new Map<string, TokenInfo>();
+    for (const pool of pools) {
+        tokens.set(pool.tokenA.mint.toBase58(), pool.tokenA);
+        tokens.set(pool.tokenB.mint.toBase58(), pool.tokenB);
+    }
+    return Array.from(tokens.values());
+}
+
+/**
+ * Tokens that can be received when paying with `fromMint`
+ */
+export function listCounterTokens(pools: PoolEntry[], fromMint: PublicKey): TokenInfo[] {
+    return pools.flatMap(pool => {
+        if (pool.state.mintA.equals(fromMint)) return [pool.tokenB];
+        if (pool.state.mintB.equals(fromMint)) return [pool.tokenA];
+        return [];
+    });
+}
@@ -0,0 +1,116 @@
+/**
+ * Pool State Codec
+ *
+ * Typed view of the light_swap_psp compressed pool account.
+ * The program passes the pool back and forth as raw `pool_data` bytes
+ * (Borsh-serialized SwapPool, no discriminator), so the client decodes it
+ * for display/quoting and re-encodes it when building instructions.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+
+// SwapPool data layout offsets. The struct lives in the light_swap_psp program
+// (4b8jCufu7b4WKXdxFRQHWSks4QdskW62qF7tApSNXuZD, IDL 0.1.0) but is not part of its
+// generated IDL, which only sees `pool_data: bytes`, so this table is the client's
+// only description of it. The offsets up to fee_bps are the ones the client read
+// before this codec existed; is_paused is the trailing flag behind the PoolPaused
+// error. The program source is not vendored here: re-check this table against the
+// program's SwapPool definition whenever the program is upgraded.
+// [0..32]    authority (pubkey)
+// [32..64]   mint_a (pubkey)
+// [64..96]   mint_b (pubkey)
+// [96..112]  reserve_a (Euint128 = u128 handle)
+// [112..128] reserve_b (Euint128 = u128 handle)
+// [128..130] fee_bps (u16)
+// [130]      is_paused (bool)
+const AUTHORITY_OFFSET = 0;
+const MINT_A_OFFSET = 32;
+const MINT_B_OFFSET = 64;
+const RESERVE_A_OFFSET = 96;
+const RESERVE_B_OFFSET = 112;
+const FEE_BPS_OFFSET = 128;
+const IS_PAUSED_OFFSET = 130;
+export const POOL_STATE_SIZE = 131;
+
+export interface PoolState {
+    authority: PublicKey;
+    mintA: PublicKey;
+    mintB: PublicKey;
+    reserveAHandle: string; // Euint128 handle as decimal string
+    reserveBHandle: string;
+    feeBps: number;
+    isPaused: boolean;
+}
+
+/**
+ * PackedStateTreeInfo from the IDL (indices into remaining accounts)
+ */
+export interface PackedStateTreeInfo {
+    rootIndex: number;
+    proveByIndex: boolean;
+    merkleTreePubkeyIndex: number;
+    queuePubkeyIndex: number;
+    leafIndex: number;
+}
+
+/**
+ * CompressedAccountMeta from the IDL, passed as `pool_meta` to pool instructions
+ */
+export interface CompressedAccountMeta {
+    treeInfo: PackedStateTreeInfo;
+    address: number[];
+    outputStateTreeIndex: number;
+}
+
+function readU128(data: Buffer, offset: number): bigint {
+    const lo = data.readBigUInt64LE(offset);
+    const hi = data.readBigUInt64LE(offset + 8);
+    return (hi << 64n) | lo;
+}
+
+function writeU128(data: Buffer, offset: number, value: bigint) {
+    data.writeBigUInt64LE(value & 0xffffffffffffffffn, offset);
+    data.writeBigUInt64LE(value >> 64n, offset + 8);
+}
+
+/**
+ * Decode raw compressed pool account data
+ */
+export function decodePoolState(data: Buffer | Uint8Array): PoolState {
+    const buf = Buffer.from(data);
+    if (buf.length < POOL_STATE_SIZE) {
+        throw new Error(`Invalid pool data: expected ${POOL_STATE_SIZE} bytes, got ${buf.length}`);
+    }
+
+    return {
+        authority: new PublicKey(buf.subarray(AUTHORITY_OFFSET, AUTHORITY_OFFSET + 32)),
+        mintA: new PublicKey(buf.subarray(MINT_A_OFFSET, MINT_A_OFFSET + 32)),
+        mintB: new PublicKey(buf.subarray(MINT_B_OFFSET, MINT_B_OFFSET + 32)),
+        reserveAHandle: readU128(buf, RESERVE_A_OFFSET).toString(),
+        reserveBHandle: readU128(buf, RESERVE_B_OFFSET).toString(),
+        feeBps: buf.readUInt16LE(FEE_BPS_OFFSET),
+        isPaused: buf[IS_PAUSED_OFFSET] !== 0,
+    };
+}
+
+/**
+ * Encode a pool state back into the `pool_data` bytes expected by the program
+ */
+export function encodePoolState(state: PoolState): Buffer {
+    const buf = Buffer.alloc(POOL_STATE_SIZE);
+    state.authority.toBuffer().copy(buf, AUTHORITY_OFFSET);
+    state.mintA.toBuffer().copy(buf, MINT_A_OFFSET);
+    state.mintB.toBuffer().copy(buf, MINT_B_OFFSET);
+    writeU128(buf, RESERVE_A_OFFSET, BigInt(state.reserveAHandle));
+    writeU128(buf, RESERVE_B_OFFSET, BigInt(state.reserveBHandle));
+    buf.writeUInt16LE(state.feeBps, FEE_BPS_OFFSET);
+    buf[IS_PAUSED_OFFSET] = state.isPaused ? 1 : 0;
+    return buf;
+}
+
+/**
+ * Format fee_bps as a percentage string (30 → "0.30%")
+ */
+export function formatFeeBps(feeBps: number): string {
+    return `${(feeBps / 100).toFixed(2)}%`;
+}
@@ -1,11 +1,14 @@
 import { PublicKey } from '@solana/web3.js';
 import { Buffer } from 'buffer';
+import { PROGRAM_IDS } from '../cluster-config';
 
-export const PRIVATE_SWAP_PROGRAM_ID = new PublicKey('4b8jCufu7b4WKXdxFRQHWSks4QdskW62qF7tApSNXuZD');
-export const INCO_TOKEN_PROGRAM_ID = new PublicKey('HmBw1FN2fXbgqyGpjB268vggBEEymNx98cuPpZQPYDZc');
-export const INCO_LIGHTNING_PROGRAM_ID = new PublicKey('5sjEbPiqgZrYwR31ahR6Uk9wf5awoX61YGg7jExQSwaj');
+// Program IDs pinned by the swap IDL
+export const PRIVATE_SWAP_PROGRAM_ID = PROGRAM_IDS.swap;
+export const INCO_TOKEN_PROGRAM_ID = PROGRAM_IDS.incoToken;
+export const INCO_LIGHTNING_PROGRAM_ID = PROGRAM_IDS.incoLightning;
 export const PERMISSION_PROGRAM_ID = new PublicKey('ACLseoPoyC3cBqoUtkbjZ4aDrkurZW86v19pXz2XQnp1');
 export const DELEGATION_PROGRAM_ID = new PublicKey('DELeGGvXpWV2fqJUhqcF5ZSYMS4JTLjteaAMARRSaeSh');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
 export const DEFAULT_VALIDATOR = new PublicKey('FnE6VJT5QNZdedZPnCoLsARgBwoE6DeJNjBs2H1gySXA');
 export const DEVNET_USDC_MINT = new PublicKey('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU');
 
@@ -22,9 +25,6 @@ export const LIGHT_NULLIFIER_QUEUE = new PublicKey('nfq1NvQDJ2GEgnS8zt9prAe8rjjp
 export const LIGHT_ADDRESS_MERKLE_TREE = new PublicKey('amt1Ayt45jfbdw5YSo7iz6WZxUmnZsQTYXy82hVwyC2');
 export const LIGHT_ADDRESS_QUEUE = new PublicKey('aq1S9z4reTSQAdgWHGD2zDaS39sjGrAxbR31vxJ2F4F');
 
-// Light Protocol RPC endpoint (for indexer queries)
-export const LIGHT_RPC_ENDPOINT = 'https://devnet.helius-rpc.com';
-
 // Range Protocol API for compliance
 export const RANGE_API_URL = 'https://api.range.org/v1/risk/address';
 
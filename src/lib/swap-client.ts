@@ -5,7 +5,7 @@
  */
 
 import { AnchorProvider, BN, Program, type Idl } from '@coral-xyz/anchor';
-import { Connection, PublicKey, Transaction, VersionedTransaction, TransactionMessage, ComputeBudgetProgram, AddressLookupTableAccount } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction, VersionedTransaction, TransactionMessage, AddressLookupTableAccount, TransactionInstruction } from '@solana/web3.js';
 import { encryptValue } from '@inco/solana-sdk/encryption';
 import { hexToBuffer } from '@inco/solana-sdk/utils';
 import {
@@ -21,19 +21,24 @@ import {
     type Rpc,
 } from '@lightprotocol/stateless.js';
 import lightSwapIdl from '@/idl/light_swap_psp.json';
-import devnetConfig from '@/config/devnet-config.json';
+import { getActiveConfig, PROGRAM_IDS } from './cluster-config';
+import { decodePoolState, type PoolState, type CompressedAccountMeta } from './pool-state';
+import { planFees, computeBudgetInstructions, networkFeeLamports, type FeePlan } from './fee-planner';
+import { minimumAmountOut } from './swap-settings';
+import { isSimulatorEnabled, createSimulatedLightRpc, simulatorEncrypt } from './local-simulator';
+import { swapError } from './swap-errors';
 
 // Force V2 mode for Light Protocol
 (featureFlags as any).version = VERSION.V2;
 
 // Program ID from deployed program
-export const LIGHT_SWAP_PROGRAM_ID = new PublicKey('4b8jCufu7b4WKXdxFRQHWSks4QdskW62qF7tApSNXuZD');
+export const LIGHT_SWAP_PROGRAM_ID = PROGRAM_IDS.swap;
 
 // Inco Lightning Program
-export const INCO_LIGHTNING_PROGRAM_ID = new PublicKey('5sjEbPiqgZrYwR31ahR6Uk9wf5awoX61YGg7jExQSwaj');
+export const INCO_LIGHTNING_PROGRAM_ID = PROGRAM_IDS.incoLightning;
 
 // Inco Token Program (for confidential token transfers)
-export const INCO_TOKEN_PROGRAM_ID = new PublicKey('CYVSeUyVzHGVcrxsJt3E8tbaPCQT8ASdRR45g5WxUEW7');
+export const INCO_TOKEN_PROGRAM_ID = PROGRAM_IDS.incoToken;
 
 // Light Protocol V2 batch address tree
 export const LIGHT_BATCH_ADDRESS_TREE = new PublicKey(batchAddressTree);
@@ -44,34 +49,39 @@ export const LIGHT_OUTPUT_QUEUE = new PublicKey('oq1na8gojfdUhsfCpyjNt6h4JaDWtHf
 // Pool authority seed
 const POOL_AUTH_SEED = Buffer.from('pool_authority');
 
-// Devnet Inco Token addresses (from devnet-config.json)
-export const DEVNET_INCO_MINT_A = new PublicKey(devnetConfig.incoMintA); // wSOL-like
-export const DEVNET_INCO_MINT_B = new PublicKey(devnetConfig.incoMintB); // USDC-like
-export const DEVNET_POOL_VAULT_A = new PublicKey(devnetConfig.poolVaultA);
-export const DEVNET_POOL_VAULT_B = new PublicKey(devnetConfig.poolVaultB);
-export const DEVNET_POOL_AUTHORITY = new PublicKey(devnetConfig.poolAuthorityPda);
-
 export interface WalletAdapter {
     publicKey: PublicKey;
     signTransaction: (tx: Transaction | VersionedTransaction) => Promise<Transaction | VersionedTransaction>;
     signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
 }
 
-// Cached lookup table
-let cachedLookupTable: AddressLookupTableAccount | null = null;
+// Lookup tables keyed by table address
+const lookupTableCache = new Map<string, AddressLookupTableAccount>();
 
 /**
- * Fetch the Address Lookup Table for V0 transactions.
- * Uses the address from devnet-config.json.
+ * Fetch an Address Lookup Table for V0 transactions.
+ * Cached per table; pass `force` after extending a table to pick up the new addresses.
+ * Defaults to the active cluster's shared table (used when a pool has no table of its own).
  */
-async function fetchLookupTable(connection: Connection): Promise<AddressLookupTableAccount | null> {
-    if (cachedLookupTable) return cachedLookupTable;
-    const lookupTableAddress = (devnetConfig as any).lookupTable;
-    if (!lookupTableAddress) return null;
+export async function fetchLookupTable(
+    connection: Connection,
+    address: PublicKey | null = getActiveConfig().lookupTable,
+    options: { force?: boolean } = {}
+): Promise<AddressLookupTableAccount | null> {
+    if (!address) return null;
+    const key = address.toBase58();
+
+    const cached = lookupTableCache.get(key);
+    if (cached && !options.force) return cached;
+
     try {
-        const result = await connection.getAddressLookupTable(new PublicKey(lookupTableAddress));
-        cachedLookupTable = result.value;
-        return cachedLookupTable;
+        const result = await connection.getAddressLookupTable(address);
+        if (result.value) {
+            lookupTableCache.set(key, result.value);
+        } else {
+            lookupTableCache.delete(key);
+        }
+        return result.value;
     } catch {
         return null;
     }
@@ -114,14 +124,13 @@ export function getSwapProgram(connection: Connection, wallet: WalletAdapter): P
     return new Program(lightSwapIdl as Idl, provider);
 }
 
-// Helius devnet RPC (public)
-const HELIUS_DEVNET_RPC = 'https://devnet.helius-rpc.com/?api-key=2d8978c6-7067-459f-ae97-7ea035f1a0cb';
-
 /**
  * Create Light RPC client for validity proofs
  */
 export function createLightRpc(): Rpc {
-    return createRpc(HELIUS_DEVNET_RPC, HELIUS_DEVNET_RPC);
+    if (isSimulatorEnabled()) return createSimulatedLightRpc();
+    const config = getActiveConfig();
+    return createRpc(config.rpcEndpoint, config.lightRpcEndpoint, config.lightProverEndpoint);
 }
 
 /**
@@ -172,13 +181,18 @@ function formatValidityProof(compressedProof: any, proveByIndex: boolean = false
 }
 
 /**
- * Create compute budget instructions
+ * Create compute budget instructions sized by the fee planner
+ * (simulated CU limit, priority fee from the selected speed level)
  */
-function computeBudgetIxs() {
-    return [
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100_000 }),
-    ];
+async function computeBudgetIxs(
+    connection: Connection,
+    payer: PublicKey,
+    ixs: TransactionInstruction[],
+    fallbackUnits: number = 1_000_000,
+    lookupTables: AddressLookupTableAccount[] = []
+): Promise<TransactionInstruction[]> {
+    const plan = await planFees({ connection, payer, instructions: ixs, lookupTables, fallbackUnits });
+    return computeBudgetInstructions(plan);
 }
 
 /**
@@ -243,53 +257,91 @@ export async function initializePool(params: {
         .instruction();
 
     const tx = new Transaction();
-    tx.add(...computeBudgetIxs());
+    tx.add(...await computeBudgetIxs(connection, wallet.publicKey, [ix]));
     tx.add(ix);
 
     return { transaction: tx, poolAddress };
 }
 
-/**
- * Fetch pool state from Light Protocol compressed account
- * Returns the pool data and metadata needed for state transitions
- */
-export async function fetchPoolState(mintA: PublicKey, mintB: PublicKey): Promise<{
-    poolMeta: any;
+export interface PoolAccountState {
+    poolMeta: CompressedAccountMeta;
     poolData: Buffer;
+    pool: PoolState;
     poolAddress: PublicKey;
-    accountHash: any;
+    accountHash: BN;
     treeInfo: {
         tree: PublicKey;
         queue: PublicKey;
     };
     leafIndex: number;
-} | null> {
+}
+
+// Pool state cache keyed by pool address, tagged with the indexer slot it was read at
+const poolStateCache = new Map<string, { slot: number; state: PoolAccountState }>();
+
+/**
+ * Drop the cached state for a pool (e.g. after sending a transaction that mutates it)
+ */
+export function invalidatePoolState(mintA: PublicKey, mintB: PublicKey) {
+    poolStateCache.delete(derivePoolAddress(mintA, mintB).toBase58());
+}
+
+/**
+ * Fetch pool state from Light Protocol compressed account
+ * Returns the pool data and metadata needed for state transitions
+ *
+ * Looks the account up directly by its derived address. The result is cached
+ * until the indexer advances past the cached slot AND the pool's account hash
+ * or leaf index has changed.
+ */
+export async function fetchPoolState(
+    mintA: PublicKey,
+    mintB: PublicKey,
+    options: { force?: boolean } = {}
+): Promise<PoolAccountState | null> {
     const lightRpc = createLightRpc();
     const poolAddress = derivePoolAddress(mintA, mintB);
+    const cacheKey = poolAddress.toBase58();
     
     try {
+        // Indexer has not moved since the last read → nothing can have changed
+        const slot = await lightRpc.getIndexerSlot();
+        const cached = poolStateCache.get(cacheKey);
+        if (cached && !options.force && cached.slot === slot) {
+            return cached.state;
+        }
+
         // Get compressed account by address
-        const accounts = await lightRpc.getCompressedAccountsByOwner(LIGHT_SWAP_PROGRAM_ID);
-        const poolAccount = accounts.items.find((acc: any) => 
-            acc.address && Buffer.from(acc.address).equals(poolAddress.toBuffer())
-        );
-        
-        if (!poolAccount) return null;
+        const acct = await lightRpc.getCompressedAccount(bn(poolAddress.toBytes()));
+        if (!acct) {
+            poolStateCache.delete(cacheKey);
+            return null;
+        }
+
+        // Same leaf as before → keep the cached state, just advance its slot
+        if (cached && cached.state.accountHash.eq(acct.hash) && cached.state.leafIndex === acct.leafIndex) {
+            poolStateCache.set(cacheKey, { slot, state: cached.state });
+            return cached.state;
+        }
         
         // Extract the actual tree info from the account (NOT hardcoded values)
-        const acct = poolAccount as any;
-        const treeInfo = acct.treeInfo || {};
-        const leafIndex = acct.leafIndex || 0;
+        const treeInfo = acct.treeInfo;
+        const leafIndex = acct.leafIndex;
         const accountHash = acct.hash;
+        const poolData = Buffer.from(acct.data?.data || []);
+        const pool = decodePoolState(poolData);
         
         console.log('Pool account found:', {
             address: poolAddress.toBase58(),
-            tree: treeInfo.tree,
-            queue: treeInfo.queue,
+            tree: treeInfo.tree.toBase58(),
+            queue: treeInfo.queue.toBase58(),
             leafIndex,
+            slot,
+            feeBps: pool.feeBps,
+            isPaused: pool.isPaused,
         });
         
-        return {
+        const state: PoolAccountState = {
             poolMeta: {
                 // This will be populated with correct indices after building PackedAccounts
                 treeInfo: {
@@ -302,7 +354,8 @@ export async function fetchPoolState(mintA: PublicKey, mintB: PublicKey): Promis
                 address: Array.from(poolAddress.toBytes()),
                 outputStateTreeIndex: 0, // Will be set after insertOrGet
             },
-            poolData: Buffer.from(acct.data?.data || []),
+            poolData,
+            pool,
             poolAddress,
             accountHash,
             treeInfo: {
@@ -311,6 +364,9 @@ export async function fetchPoolState(mintA: PublicKey, mintB: PublicKey): Promis
             },
             leafIndex,
         };
+
+        poolStateCache.set(cacheKey, { slot, state });
+        return state;
     } catch (e) {
         console.warn('Pool not found:', e);
         return null;
@@ -318,36 +374,34 @@ export async function fetchPoolState(mintA: PublicKey, mintB: PublicKey): Promis
 }
 
 /**
- * Execute a swap with Light Protocol V2 and Inco Token transfers
+ * Poll the indexer until the pool leaf differs from `previousHash`
+ * (or the pool appears, when `previousHash` is null). Returns the latest state.
  */
-export async function swapExactIn(params: {
-    connection: Connection;
-    wallet: WalletAdapter;
-    mintA: PublicKey;
-    mintB: PublicKey;
-    amountInCiphertext: Buffer;
-    amountOutCiphertext: Buffer;
-    feeAmountCiphertext: Buffer;
-    aToB: boolean;
-    // Inco Token accounts for actual token transfers
-    userTokenA: PublicKey;
-    userTokenB: PublicKey;
-    poolVaultA: PublicKey;
-    poolVaultB: PublicKey;
-}): Promise<Transaction | VersionedTransaction> {
-    const { connection, wallet, mintA, mintB, amountInCiphertext, amountOutCiphertext, feeAmountCiphertext, aToB, userTokenA, userTokenB, poolVaultA, poolVaultB } = params;
-    
-    // Derive pool authority PDA
-    const poolAuthorityPda = derivePoolAuthorityPda(mintA, mintB);
-    const program = getSwapProgram(connection, wallet);
-    const lightRpc = createLightRpc();
-
-    // Fetch pool state (includes actual tree info from the account)
-    const poolState = await fetchPoolState(mintA, mintB);
-    if (!poolState) {
-        throw new Error('Pool not initialized. Please initialize pool first.');
+export async function waitForPoolUpdate(
+    mintA: PublicKey,
+    mintB: PublicKey,
+    previousHash: BN | null,
+    attempts: number = 10,
+    intervalMs: number = 2000
+): Promise<PoolAccountState | null> {
+    let state: PoolAccountState | null = null;
+    for (let i = 0; i < attempts; i++) {
+        state = await fetchPoolState(mintA, mintB, { force: true });
+        if (state && (!previousHash || !state.accountHash.eq(previousHash))) return state;
+        await new Promise(r => setTimeout(r, intervalMs));
     }
+    return state;
+}
 
+/**
+ * Build proof, pool meta and remaining accounts for a state transition on the
+ * existing compressed pool account (swap / remove liquidity)
+ */
+async function buildPoolStateTransition(lightRpc: Rpc, poolState: PoolAccountState): Promise<{
+    validityProof: ReturnType<typeof formatValidityProof>;
+    poolMeta: CompressedAccountMeta;
+    remainingAccounts: ReturnType<typeof buildRemainingAccounts>;
+}> {
     // Use the ACTUAL tree info from the pool account, not hardcoded values
     const stateTree = poolState.treeInfo.tree;
     const stateQueue = poolState.treeInfo.queue;
@@ -396,7 +450,7 @@ export async function swapExactIn(params: {
     } catch (proofError: any) {
         console.error('Failed to get validity proof:', proofError?.message, proofError);
         // Don't fallback - we need a real validity proof for state transitions
-        throw new Error(`Cannot get validity proof: ${proofError?.message}`);
+        throw swapError('ProofUnavailable', proofError);
     }
 
     // Build remaining accounts using the ACTUAL trees from the pool
@@ -414,7 +468,7 @@ export async function swapExactIn(params: {
 
     // Update poolMeta with correct indices
     // V2 batched trees use proveByIndex=true optimization (no ZK proof needed)
-    const poolMeta = {
+    const poolMeta: CompressedAccountMeta = {
         treeInfo: {
             rootIndex,
             proveByIndex: true, // V2 batched trees verify by index, not merkle proof
@@ -435,7 +489,86 @@ export async function swapExactIn(params: {
         proof: validityProof === null ? 'None' : 'Some',
     });
 
-    const ix = await program.methods
+    return { validityProof, poolMeta, remainingAccounts };
+}
+
+/**
+ * Wrap pool instructions in a transaction.
+ * Uses a V0 transaction with the given lookup tables (defaults to the shared
+ * table; needed for ECIES-sized ciphertexts), otherwise falls back to a legacy transaction.
+ */
+export async function buildPoolTransaction(
+    connection: Connection,
+    payer: PublicKey,
+    ixs: TransactionInstruction[],
+    computeUnits?: number,
+    lookupTables?: AddressLookupTableAccount[]
+): Promise<Transaction | VersionedTransaction> {
+    // Try V0 transaction with lookup table (needed for ECIES-sized ciphertexts)
+    const tables = lookupTables ?? [await fetchLookupTable(connection)].filter(
+        (t): t is AddressLookupTableAccount => t !== null
+    );
+    if (tables.length > 0) {
+        const allIxs = [...await computeBudgetIxs(connection, payer, ixs, computeUnits, tables), ...ixs];
+        const { blockhash } = await connection.getLatestBlockhash();
+        const messageV0 = new TransactionMessage({
+            payerKey: payer,
+            recentBlockhash: blockhash,
+            instructions: allIxs,
+        }).compileToV0Message(tables);
+        return new VersionedTransaction(messageV0);
+    }
+
+    // Fallback to legacy transaction (if no lookup table configured)
+    console.warn('No address lookup table available; building a legacy transaction (ECIES ciphertexts may not fit)');
+    const tx = new Transaction();
+    tx.add(...await computeBudgetIxs(connection, payer, ixs, computeUnits));
+    tx.add(...ixs);
+
+    return tx;
+}
+
+export interface SwapExactInParams {
+    connection: Connection;
+    wallet: WalletAdapter;
+    mintA: PublicKey;
+    mintB: PublicKey;
+    amountInCiphertext: Buffer;
+    amountOutCiphertext: Buffer;
+    feeAmountCiphertext: Buffer;
+    aToB: boolean;
+    // Inco Token accounts for actual token transfers
+    userTokenA: PublicKey;
+    userTokenB: PublicKey;
+    poolVaultA: PublicKey;
+    poolVaultB: PublicKey;
+    // Lookup tables for the V0 transaction (defaults to the shared table)
+    lookupTables?: AddressLookupTableAccount[];
+}
+
+/**
+ * Build the swap_exact_in instruction (proof, pool meta and remaining accounts resolved)
+ */
+export async function buildSwapExactInInstruction(params: SwapExactInParams): Promise<TransactionInstruction> {
+    const { connection, wallet, mintA, mintB, amountInCiphertext, amountOutCiphertext, feeAmountCiphertext, aToB, userTokenA, userTokenB, poolVaultA, poolVaultB } = params;
+    
+    // Derive pool authority PDA
+    const poolAuthorityPda = derivePoolAuthorityPda(mintA, mintB);
+    const program = getSwapProgram(connection, wallet);
+    const lightRpc = createLightRpc();
+
+    // Fetch pool state (includes actual tree info from the account)
+    const poolState = await fetchPoolState(mintA, mintB);
+    if (!poolState) {
+        throw new Error('Pool not initialized. Please initialize pool first.');
+    }
+    if (poolState.pool.isPaused) {
+        throw swapError('PoolPaused');
+    }
+
+    const { validityProof, poolMeta, remainingAccounts } = await buildPoolStateTransition(lightRpc, poolState);
+
+    return program.methods
         .swapExactIn(
             validityProof,
             poolMeta,
@@ -458,26 +591,14 @@ export async function swapExactIn(params: {
         })
         .remainingAccounts(remainingAccounts)
         .instruction();
+}
 
-    // Try V0 transaction with lookup table (needed for ECIES-sized ciphertexts)
-    const lookupTable = await fetchLookupTable(connection);
-    if (lookupTable) {
-        const allIxs = [...computeBudgetIxs(), ix];
-        const { blockhash } = await connection.getLatestBlockhash();
-        const messageV0 = new TransactionMessage({
-            payerKey: wallet.publicKey,
-            recentBlockhash: blockhash,
-            instructions: allIxs,
-        }).compileToV0Message([lookupTable]);
-        return new VersionedTransaction(messageV0);
-    }
-
-    // Fallback to legacy transaction (if no lookup table configured)
-    const tx = new Transaction();
-    tx.add(...computeBudgetIxs());
-    tx.add(ix);
-
-    return tx;
+/**
+ * Execute a swap with Light Protocol V2 and Inco Token transfers
+ */
+export async function swapExactIn(params: SwapExactInParams): Promise<Transaction | VersionedTransaction> {
+    const ix = await buildSwapExactInInstruction(params);
+    return buildPoolTransaction(params.connection, params.wallet.publicKey, [ix], undefined, params.lookupTables);
 }
 
 /**
@@ -537,12 +658,60 @@ export async function addLiquidity(params: {
         .instruction();
 
     const tx = new Transaction();
-    tx.add(...computeBudgetIxs());
+    tx.add(...await computeBudgetIxs(connection, wallet.publicKey, [ix]));
     tx.add(ix);
 
     return tx;
 }
 
+/**
+ * Remove liquidity from pool with Light Protocol V2 (authority only)
+ * Uses the same tree info / validity proof handling as swapExactIn
+ */
+export async function removeLiquidity(params: {
+    connection: Connection;
+    wallet: WalletAdapter;
+    mintA: PublicKey;
+    mintB: PublicKey;
+    amountACiphertext: Buffer;
+    amountBCiphertext: Buffer;
+    lookupTables?: AddressLookupTableAccount[];
+}): Promise<Transaction | VersionedTransaction> {
+    const { connection, wallet, mintA, mintB, amountACiphertext, amountBCiphertext, lookupTables } = params;
+    const program = getSwapProgram(connection, wallet);
+    const lightRpc = createLightRpc();
+
+    // Fetch pool state (includes actual tree info from the account)
+    const poolState = await fetchPoolState(mintA, mintB);
+    if (!poolState) {
+        throw new Error('Pool not initialized. Please initialize pool first.');
+    }
+    if (!poolState.pool.authority.equals(wallet.publicKey)) {
+        throw swapError('Unauthorized');
+    }
+
+    const { validityProof, poolMeta, remainingAccounts } = await buildPoolStateTransition(lightRpc, poolState);
+
+    const ix = await program.methods
+        .removeLiquidity(
+            validityProof,
+            poolMeta,
+            poolState.poolData,
+            amountACiphertext,
+            amountBCiphertext,
+            0 // input_type
+        )
+        .accounts({
+            feePayer: wallet.publicKey,
+            authority: wallet.publicKey,
+            incoLightningProgram: INCO_LIGHTNING_PROGRAM_ID,
+        })
+        .remainingAccounts(remainingAccounts)
+        .instruction();
+
+    return buildPoolTransaction(connection, wallet.publicKey, [ix], undefined, lookupTables);
+}
+
 /**
  * Encrypt an amount using Inco SDK ECIES encryption.
  * 
@@ -554,21 +723,37 @@ export async function addLiquidity(params: {
  * (~200 bytes each) fit within Solana's 1232 byte transaction limit.
  */
 export async function encryptAmount(amount: bigint): Promise<Buffer> {
+    if (isSimulatorEnabled()) return simulatorEncrypt(amount);
     const hex = await encryptValue(amount);
     return hexToBuffer(hex);
 }
 
+export interface SwapQuoteBreakdown {
+    amountOut: bigint;
+    feeAmount: bigint; // LP fee, in the input token
+    priceImpactBps: number; // execution price (before fee) vs the pool's spot price
+    minimumAmountOut: bigint; // amountOut at the slippage tolerance
+    networkFeeLamports: number | null; // null without a fee plan
+}
+
 /**
  * Compute constant product swap quote
+ *
+ * @param options.slippageBps - tolerance for minimumAmountOut (default 0)
+ * @param options.feePlan - compute budget of the transaction, for the network fee
  */
 export function computeSwapQuote(
     amountIn: bigint,
     reserveIn: bigint,
     reserveOut: bigint,
-    feeBps: bigint = 30n
-): { amountOut: bigint; feeAmount: bigint } {
+    feeBps: bigint = 30n,
+    options: { slippageBps?: number; feePlan?: Pick<FeePlan, 'computeUnits' | 'microLamports'> } = {}
+): SwapQuoteBreakdown {
+    const networkFee = options.feePlan
+        ? networkFeeLamports(options.feePlan.computeUnits, options.feePlan.microLamports)
+        : null;
     if (reserveIn === 0n || reserveOut === 0n) {
-        return { amountOut: 0n, feeAmount: 0n };
+        return { amountOut: 0n, feeAmount: 0n, priceImpactBps: 0, minimumAmountOut: 0n, networkFeeLamports: networkFee };
     }
 
     const feeAmount = (amountIn * feeBps) / 10000n;
@@ -578,5 +763,45 @@ export function computeSwapQuote(
     // (reserveIn + netIn) * (reserveOut - amountOut) = reserveIn * reserveOut
     const amountOut = (reserveOut * netIn) / (reserveIn + netIn);
 
-    return { amountOut, feeAmount };
+    // Spot price is reserveOut / reserveIn; execution price is amountOut / netIn
+    const priceImpactBps = netIn > 0n
+        ? Number(10000n - (amountOut * reserveIn * 10000n) / (netIn * reserveOut))
+        : 0;
+
+    return {
+        amountOut,
+        feeAmount,
+        priceImpactBps,
+        minimumAmountOut: minimumAmountOut(amountOut, options.slippageBps ?? 0),
+        networkFeeLamports: networkFee,
+    };
+}
+
+/**
+ * Inverse constant product quote: smallest input (fee included) that yields
+ * at least `amountOut` under computeSwapQuote. Zero when the pool cannot pay it
+ * or its fee takes the whole input.
+ */
+export function computeSwapQuoteExactOut(
+    amountOut: bigint,
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeBps: bigint = 30n
+): { amountIn: bigint; feeAmount: bigint } {
+    // A 100% fee leaves no net input, so no input can buy any output
+    if (reserveIn === 0n || reserveOut === 0n || amountOut === 0n || amountOut >= reserveOut || feeBps >= 10000n) {
+        return { amountIn: 0n, feeAmount: 0n };
+    }
+
+    // Net input the curve needs: (reserveIn + netIn) * (reserveOut - amountOut) >= reserveIn * reserveOut
+    const remaining = reserveOut - amountOut;
+    const netIn = (reserveIn * amountOut + remaining - 1n) / remaining;
+
+    // Gross up by the fee; the fee rounds down, so nudge to the smallest input whose net covers it
+    const netOf = (gross: bigint) => gross - (gross * feeBps) / 10000n;
+    let amountIn = (netIn * 10000n) / (10000n - feeBps);
+    while (netOf(amountIn) < netIn) amountIn++;
+    while (amountIn > netIn && netOf(amountIn - 1n) >= netIn) amountIn--;
+
+    return { amountIn, feeAmount: (amountIn * feeBps) / 10000n };
 }
@@ -0,0 +1,244 @@
+/**
+ * Swap Errors
+ *
+ * Decodes raw failures into typed errors with a user-facing message and a
+ * suggested action:
+ * - custom program errors of the swap program (codes from its IDL)
+ * - Inco Token / Inco Lightning program errors
+ * - Light validity-proof failures (indexer proof requests and on-chain
+ *   verification in the Light system / account compression programs)
+ * - wallet rejections and common runtime failures (fees, expired blockhash)
+ *
+ * Custom codes overlap between programs (both IDLs start at 6000), so the
+ * failing program is taken from the transaction logs when they are available;
+ * otherwise the caller's `program` hint decides.
+ */
+
+import { accountCompressionProgram, lightSystemProgram } from '@lightprotocol/stateless.js';
+import lightSwapIdl from '@/idl/light_swap_psp.json';
+import { PROGRAM_IDS } from './cluster-config';
+
+export type SwapErrorCode =
+    | 'PoolPaused'
+    | 'InvalidInputMint'
+    | 'InvalidOutputMint'
+    | 'Unauthorized'
+    | 'IncoMissingSignature'
+    | 'IncoInvalidProgram'
+    | 'IncoAccountNotInitialized'
+    | 'IncoProgramFailed'
+    | 'IncoDecryptFailed'
+    | 'ProofUnavailable'
+    | 'ProofRejected'
+    | 'WalletRejected'
+    | 'InsufficientSol'
+    | 'TransactionExpired'
+    | 'Unknown';
+
+export type ErrorProgram = 'swap' | 'inco-token';
+
+export interface SwapError extends Error {
+    code: SwapErrorCode;
+    action: string | null; // what the user can do about it
+    programErrorCode: number | null; // custom program error number, when one was decoded
+    cause: unknown;
+}
+
+const ERROR_INFO: Record<SwapErrorCode, { message: string; action: string | null }> = {
+    PoolPaused: {
+        message: 'This pool is paused by its operator.',
+        action: 'Try again later or pick a route through another pool.',
+    },
+    InvalidInputMint: {
+        message: 'Your input token account does not match the pool.',
+        action: 'Refresh your confidential accounts and try again.',
+    },
+    InvalidOutputMint: {
+        message: 'Your output token account does not match the pool.',
+        action: 'Refresh your confidential accounts and try again.',
+    },
+    Unauthorized: {
+        message: 'Only the pool authority can perform this action.',
+        action: 'Connect the wallet that initialized the pool.',
+    },
+    IncoMissingSignature: {
+        message: 'The confidential transfer is missing a required signature.',
+        action: 'Reconnect your wallet and sign again.',
+    },
+    IncoInvalidProgram: {
+        message: 'The transaction points at the wrong Inco Lightning program.',
+        action: 'Check that the selected cluster matches the deployed programs.',
+    },
+    IncoAccountNotInitialized: {
+        message: 'A confidential token account does not exist yet.',
+        action: 'Set up your token accounts from the faucet first.',
+    },
+    IncoProgramFailed: {
+        message: 'The encrypted token program rejected the transfer.',
+        action: 'Check your confidential balance and try a smaller amount.',
+    },
+    IncoDecryptFailed: {
+        message: 'Encrypted values could not be decrypted.',
+        action: 'Sign the decrypt request and make sure your wallet has been granted access.',
+    },
+    ProofUnavailable: {
+        message: 'The Light indexer could not provide a validity proof for the pool.',
+        action: 'The indexer may be catching up; wait a few seconds and retry.',
+    },
+    ProofRejected: {
+        message: 'The pool changed while the transaction was being built, so its proof was rejected.',
+        action: 'Refresh the quote and retry.',
+    },
+    WalletRejected: {
+        message: 'The request was rejected in your wallet.',
+        action: null,
+    },
+    InsufficientSol: {
+        message: 'Not enough SOL to pay for the transaction.',
+        action: 'Top up SOL for fees and rent, then retry.',
+    },
+    TransactionExpired: {
+        message: 'The transaction expired before it landed.',
+        action: 'Retry; congestion can be offset with a faster transaction speed.',
+    },
+    Unknown: {
+        message: 'Something went wrong.',
+        action: null,
+    },
+};
+
+// Custom program errors by program (swap codes from the IDL, Inco Token codes from public/idl/inco_token.json)
+const SWAP_PROGRAM_ERRORS = new Map<number, SwapErrorCode>(
+    (lightSwapIdl.errors ?? []).map(({ code, name }) => [code, name as SwapErrorCode])
+);
+const INCO_TOKEN_ERRORS = new Map<number, SwapErrorCode>([
+    [6000, 'IncoMissingSignature'],
+    [6001, 'IncoInvalidProgram'],
+]);
+
+// Anchor framework errors that mean an Inco account was never created
+const ANCHOR_ACCOUNT_NOT_INITIALIZED = 3012;
+const ANCHOR_DISCRIMINATOR_NOT_FOUND = 3001;
+
+const LIGHT_PROGRAMS = new Set([lightSystemProgram, accountCompressionProgram]);
+
+const WALLET_REJECTION_PATTERN = /user rejected|rejected the request|request rejected|transaction cancelled|approval denied|declined/i;
+
+/**
+ * Build a typed error for a known failure
+ */
+export function swapError(code: SwapErrorCode, cause?: unknown, programErrorCode: number | null = null): SwapError {
+    const { message, action } = ERROR_INFO[code];
+    return Object.assign(new Error(message), { name: 'SwapError', code, action, programErrorCode, cause });
+}
+
+export function isSwapError(e: unknown): e is SwapError {
+    return e instanceof Error && e.name === 'SwapError' && 'code' in e;
+}
+
+function rawMessage(e: any): string {
+    if (typeof e === 'string') return e;
+    return String(e?.message ?? (e ? JSON.stringify(e) : ''));
+}
+
+function rawLogs(e: any): string[] {
+    const logs = e?.logs ?? e?.transactionLogs ?? e?.simulationResponse?.logs;
+    return Array.isArray(logs) ? logs : [];
+}
+
+/**
+ * Failing program and custom error number, from the innermost failure in the
+ * logs first, then Anchor's parsed error, then the message
+ * ("custom program error: 0x1770" or a serialized {"Custom":6000} instruction error)
+ */
+function findProgramError(e: any, message: string, logs: string[]): { programId: string | null; code: number } | null {
+    for (const line of logs) {
+        const match = line.match(/^Program (\w+) failed: custom program error: 0x([0-9a-f]+)/i);
+        if (match) return { programId: match[1], code: parseInt(match[2], 16) };
+    }
+    if (typeof e?.error?.errorCode?.number === 'number') {
+        return { programId: e.program?.toBase58?.() ?? null, code: e.error.errorCode.number };
+    }
+    const hex = message.match(/custom program error: 0x([0-9a-f]+)/i);
+    if (hex) return { programId: null, code: parseInt(hex[1], 16) };
+    const custom = message.match(/"Custom":\s*(\d+)/);
+    if (custom) return { programId: null, code: parseInt(custom[1], 10) };
+    return null;
+}
+
+// The first failure is the innermost program; callers up the CPI chain re-report its error
+function failedProgram(logs: string[]): string | null {
+    for (const line of logs) {
+        const match = line.match(/^Program (\w+) failed/);
+        if (match) return match[1];
+    }
+    return null;
+}
+
+function programErrorCode(
+    programId: string | null,
+    code: number,
+    hint: ErrorProgram
+): SwapErrorCode {
+    if (programId && LIGHT_PROGRAMS.has(programId)) return 'ProofRejected';
+    if (code === ANCHOR_ACCOUNT_NOT_INITIALIZED || code === ANCHOR_DISCRIMINATOR_NOT_FOUND) {
+        return 'IncoAccountNotInitialized';
+    }
+
+    const program = programId === PROGRAM_IDS.swap.toBase58() ? 'swap'
+        : programId === PROGRAM_IDS.incoToken.toBase58() ? 'inco-token'
+        : programId === PROGRAM_IDS.incoLightning.toBase58() ? 'inco-lightning'
+        : programId ? 'other' : hint;
+
+    if (program === 'swap') return SWAP_PROGRAM_ERRORS.get(code) ?? 'Unknown';
+    if (program === 'inco-token') return INCO_TOKEN_ERRORS.get(code) ?? 'IncoProgramFailed';
+    if (program === 'inco-lightning') return 'IncoProgramFailed';
+    return 'Unknown';
+}
+
+/**
+ * Map any thrown value to a typed error (typed errors pass through)
+ * @param program - program to attribute a bare custom error code to when logs do not name it
+ */
+export function decodeError(e: unknown, program: ErrorProgram = 'swap'): SwapError {
+    if (isSwapError(e)) return e;
+
+    const message = rawMessage(e);
+    const logs = rawLogs(e);
+    const err = e as any;
+
+    if (err?.code === 4001 || WALLET_REJECTION_PATTERN.test(message)) {
+        return swapError('WalletRejected', e);
+    }
+
+    const programError = findProgramError(e, message, logs);
+    if (programError) {
+        const code = programErrorCode(programError.programId ?? failedProgram(logs), programError.code, program);
+        if (code !== 'Unknown') return swapError(code, e, programError.code);
+    }
+
+    const failing = failedProgram(logs);
+    if (failing && LIGHT_PROGRAMS.has(failing)) return swapError('ProofRejected', e);
+    if (/ProofVerificationFailed|invalid proof|root.*not found/i.test(message + logs.join('\n'))) {
+        return swapError('ProofRejected', e);
+    }
+    if (/insufficient lamports|insufficient funds for (fee|rent)|no record of a prior credit/i.test(message + logs.join('\n'))) {
+        return swapError('InsufficientSol', e);
+    }
+    if (/Blockhash not found|block height exceeded/i.test(message)) {
+        return swapError('TransactionExpired', e);
+    }
+
+    // Unrecognized: keep the raw text so it is still visible
+    return Object.assign(swapError('Unknown', e, programError?.code ?? null), {
+        message: message || ERROR_INFO.Unknown.message,
+    });
+}
+
+/**
+ * Message plus suggested action, for status lines
+ */
+export function describeError(e: unknown, program?: ErrorProgram): string {
+    const { message, action } = decodeError(e, program);
+    return action ? `${message} ${action}` : message;
+}
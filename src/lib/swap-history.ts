@@ -0,0 +1,204 @@
+/**
+ * Swap History
+ *
+ * Per-wallet activity log kept in localStorage: swaps, approvals and faucet drips.
+ * Swap amounts are encrypted on-chain, so in/out amounts are only filled in
+ * once the user decrypts them (outcome verification after a swap).
+ *
+ * When storage is empty the swap entries are rebuilt from chain by decoding
+ * the wallet's swap_exact_in instructions with the program IDL.
+ */
+
+import { BorshInstructionCoder, type Idl } from '@coral-xyz/anchor';
+import { Connection, PublicKey, type VersionedTransactionResponse } from '@solana/web3.js';
+import lightSwapIdl from '@/idl/light_swap_psp.json';
+import { LIGHT_SWAP_PROGRAM_ID, derivePoolAddress } from './swap-client';
+import { decodePoolState } from './pool-state';
+
+const STORAGE_PREFIX = 'velvet-swap:history:';
+const MAX_ENTRIES = 200;
+const REBUILD_SIGNATURE_LIMIT = 100;
+
+export type HistoryKind = 'swap' | 'approve' | 'faucet';
+
+export interface HistoryEntry {
+    signature: string; // last transaction of a swap sent as several
+    signatures?: string[]; // every transaction of such a swap, in send order
+    kind: HistoryKind;
+    timestamp: number; // ms since epoch
+    // Swaps
+    pool?: string;
+    aToB?: boolean;
+    mintIn?: string;
+    mintOut?: string;
+    route?: string[]; // pool addresses of a multi-hop swap
+    // Decrypted base-unit amounts (only after the user decrypts)
+    amountIn?: string;
+    amountOut?: string;
+    decryptedAt?: number; // ms since epoch
+    outcome?: 'executed' | 'zeroed' | 'unverified';
+    // Approvals
+    account?: string;
+}
+
+function storageKey(wallet: PublicKey): string {
+    return `${STORAGE_PREFIX}${wallet.toBase58()}`;
+}
+
+function hasStorage(): boolean {
+    return typeof window !== 'undefined' && !!window.localStorage;
+}
+
+/**
+ * Read a wallet's history, newest first
+ */
+export function loadHistory(wallet: PublicKey): HistoryEntry[] {
+    if (!hasStorage()) return [];
+    try {
+        const raw = window.localStorage.getItem(storageKey(wallet));
+        return raw ? (JSON.parse(raw) as HistoryEntry[]) : [];
+    } catch (e) {
+        console.warn('Failed to read history:', e);
+        return [];
+    }
+}
+
+function saveHistory(wallet: PublicKey, entries: HistoryEntry[]): HistoryEntry[] {
+    const sorted = [...entries].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_ENTRIES);
+    if (hasStorage()) {
+        try {
+            window.localStorage.setItem(storageKey(wallet), JSON.stringify(sorted));
+        } catch (e) {
+            console.warn('Failed to write history:', e);
+        }
+    }
+    return sorted;
+}
+
+/**
+ * Add an entry (or merge into the existing entry with the same signature and kind)
+ */
+export function recordHistoryEntry(wallet: PublicKey, entry: HistoryEntry): HistoryEntry[] {
+    const entries = loadHistory(wallet);
+    const index = entries.findIndex(e => e.signature === entry.signature && e.kind === entry.kind);
+    if (index >= 0) {
+        entries[index] = { ...entries[index], ...entry };
+    } else {
+        entries.push(entry);
+    }
+    return saveHistory(wallet, entries);
+}
+
+/**
+ * Attach decrypted amounts / outcome to an existing entry
+ */
+export function updateHistoryEntry(
+    wallet: PublicKey,
+    signature: string,
+    patch: Partial<Omit<HistoryEntry, 'signature' | 'kind'>>
+): HistoryEntry[] {
+    const entries = loadHistory(wallet).map(e => (e.signature === signature ? { ...e, ...patch } : e));
+    return saveHistory(wallet, entries);
+}
+
+export function clearHistory(wallet: PublicKey) {
+    if (hasStorage()) window.localStorage.removeItem(storageKey(wallet));
+}
+
+interface DecodedSwap {
+    pool: string;
+    aToB: boolean;
+    mintIn: string;
+    mintOut: string;
+}
+
+let instructionCoder: BorshInstructionCoder | null = null;
+
+/**
+ * Decode swap_exact_in instructions the wallet paid for
+ */
+function decodeSwapInstructions(tx: VersionedTransactionResponse): DecodedSwap[] {
+    if (!instructionCoder) instructionCoder = new BorshInstructionCoder(lightSwapIdl as Idl);
+    const coder = instructionCoder;
+
+    const message = tx.transaction.message;
+    const accountKeys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+    const swaps: DecodedSwap[] = [];
+
+    for (const ix of message.compiledInstructions) {
+        const programId = accountKeys.get(ix.programIdIndex);
+        if (!programId?.equals(LIGHT_SWAP_PROGRAM_ID)) continue;
+
+        try {
+            // Malformed instruction data throws; such an instruction is not a swap we can show
+            const decoded = coder.decode(Buffer.from(ix.data));
+            if (!decoded || (decoded.name !== 'swap_exact_in' && decoded.name !== 'swapExactIn')) continue;
+
+            // Coder keeps the IDL's snake_case names; accept camelCase too
+            const args = decoded.data as any;
+            const aToB: boolean = args.a_to_b ?? args.aToB;
+            const state = decodePoolState(Buffer.from(args.pool_data ?? args.poolData));
+            swaps.push({
+                pool: derivePoolAddress(state.mintA, state.mintB).toBase58(),
+                aToB,
+                mintIn: (aToB ? state.mintA : state.mintB).toBase58(),
+                mintOut: (aToB ? state.mintB : state.mintA).toBase58(),
+            });
+        } catch {
+            continue;
+        }
+    }
+
+    return swaps;
+}
+
+/**
+ * Rebuild swap entries from the wallet's recent transactions
+ * (amounts stay encrypted; approvals and faucet drips are not recoverable this way)
+ */
+export async function rebuildHistoryFromChain(
+    connection: Connection,
+    wallet: PublicKey,
+    limit: number = REBUILD_SIGNATURE_LIMIT
+): Promise<HistoryEntry[]> {
+    const signatures = await connection.getSignaturesForAddress(wallet, { limit });
+    const successful = signatures.filter(s => !s.err).map(s => s.signature);
+    if (successful.length === 0) return loadHistory(wallet);
+
+    const transactions = await connection.getTransactions(successful, {
+        maxSupportedTransactionVersion: 0,
+        commitment: 'confirmed',
+    });
+
+    const entries: HistoryEntry[] = [];
+    transactions.forEach((tx, i) => {
+        if (!tx || tx.meta?.err) return;
+        const swaps = decodeSwapInstructions(tx);
+        if (swaps.length === 0) return;
+
+        const first = swaps[0];
+        const last = swaps[swaps.length - 1];
+        entries.push({
+            signature: successful[i],
+            kind: 'swap',
+            timestamp: (tx.blockTime ?? 0) * 1000,
+            pool: first.pool,
+            aToB: first.aToB,
+            mintIn: first.mintIn,
+            mintOut: last.mintOut,
+            ...(swaps.length > 1 ? { route: swaps.map(s => s.pool) } : {}),
+        });
+    });
+
+    console.log('History rebuilt from chain:', entries.length, 'swaps');
+
+    // A local multi-transaction swap already covers each of its legs
+    const merged = loadHistory(wallet);
+    for (const entry of entries) {
+        if (!merged.some(e => e.kind === entry.kind
+            && (e.signature === entry.signature || e.signatures?.includes(entry.signature)))) {
+            merged.push(entry);
+        }
+    }
+    return saveHistory(wallet, merged);
+}
@@ -0,0 +1,445 @@
+/**
+ * Swap Indexer
+ *
+ * Follows the swap program's signatures and records pool activity:
+ * swap_exact_in, add_liquidity and remove_liquidity, decoded with the program
+ * IDL. Amounts are encrypted on-chain, so an event carries the pool, the swap
+ * direction, the signer, the slot, the fee tier and the pool leaf it consumed.
+ * `poolActivitySeries` buckets events over time for the analytics page.
+ *
+ * A sync walks getSignaturesForAddress newest-first down to the last indexed
+ * signature, so each run only fetches what is new. The first sync backfills
+ * at most `maxSignatures`. When a later sync hits that cap, the rest of the gap
+ * is stored as `backfill` and the next syncs finish it before reading new
+ * signatures again.
+ *
+ * The RPC is the narrow `IndexerRpc` interface so a stub can feed it, and
+ * storage is an `IndexerStore` (JSON file on the server, see indexer-store.ts).
+ */
+
+import { BorshInstructionCoder, type Idl } from '@coral-xyz/anchor';
+import {
+    Connection,
+    PublicKey,
+    type ConfirmedSignatureInfo,
+    type VersionedTransactionResponse,
+} from '@solana/web3.js';
+import lightSwapIdl from '@/idl/light_swap_psp.json';
+import { LIGHT_SWAP_PROGRAM_ID, derivePoolAddress } from './swap-client';
+import { decodePoolState } from './pool-state';
+
+const SIGNATURE_PAGE_SIZE = 1000; // RPC maximum
+const TRANSACTION_BATCH_SIZE = 50;
+const DEFAULT_MAX_SIGNATURES = 2000;
+const MAX_STORED_EVENTS = 50_000;
+
+export const DEFAULT_PAGE_LIMIT = 25;
+export const MAX_PAGE_LIMIT = 100;
+
+export type PoolEventKind = 'swap' | 'add_liquidity' | 'remove_liquidity';
+
+export const POOL_EVENT_KINDS: PoolEventKind[] = ['swap', 'add_liquidity', 'remove_liquidity'];
+
+export interface PoolEvent {
+    signature: string;
+    instructionIndex: number;
+    slot: number;
+    blockTime: number | null; // seconds since epoch
+    kind: PoolEventKind;
+    pool: string;
+    mintA: string;
+    mintB: string;
+    aToB: boolean | null; // swaps only
+    signer: string; // fee payer
+    feeBps: number; // pool fee tier when the instruction ran
+    leafIndex: number | null; // pool leaf consumed by the state transition
+}
+
+// Signatures older than `before` and newer than `until` are not indexed yet
+export interface IndexerBackfill {
+    before: string;
+    until: string;
+}
+
+export interface IndexerState {
+    cursor: string | null; // newest indexed signature
+    backfill: IndexerBackfill | null; // gap left when a sync hit maxSignatures
+    events: PoolEvent[]; // newest first
+    syncedAt: number | null; // ms since epoch
+}
+
+export type IndexerRpc = Pick<Connection, 'getSignaturesForAddress' | 'getTransactions'>;
+
+export interface IndexerStore {
+    load(): Promise<IndexerState>;
+    save(state: IndexerState): Promise<void>;
+}
+
+export interface PoolEventQuery {
+    pool?: string;
+    kind?: PoolEventKind;
+    signer?: string;
+    offset?: number;
+    limit?: number;
+}
+
+export interface Page<T> {
+    items: T[];
+    total: number;
+    offset: number;
+    limit: number;
+    nextOffset: number | null;
+}
+
+export interface IndexedPool {
+    pool: string;
+    mintA: string;
+    mintB: string;
+    swaps: number;
+    swapsAToB: number;
+    deposits: number;
+    withdrawals: number;
+    traders: number; // distinct swap signers
+    feeBps: number; // fee tier at the latest event
+    leafIndex: number | null; // pool leaf consumed by the latest event
+    firstSlot: number;
+    lastSlot: number;
+    lastBlockTime: number | null;
+}
+
+export function emptyIndexerState(): IndexerState {
+    return { cursor: null, backfill: null, events: [], syncedAt: null };
+}
+
+/**
+ * In-memory store (tests, or when no file store is configured)
+ */
+export function createMemoryStore(initial: IndexerState = emptyIndexerState()): IndexerStore {
+    let state = initial;
+    return {
+        load: async () => state,
+        save: async (next) => { state = next; },
+    };
+}
+
+const INSTRUCTION_KINDS: Record<string, PoolEventKind> = {
+    swap_exact_in: 'swap',
+    swapExactIn: 'swap',
+    add_liquidity: 'add_liquidity',
+    addLiquidity: 'add_liquidity',
+    remove_liquidity: 'remove_liquidity',
+    removeLiquidity: 'remove_liquidity',
+};
+
+let instructionCoder: BorshInstructionCoder | null = null;
+
+function poolMetaLeafIndex(meta: any): number | null {
+    const treeInfo = meta?.tree_info ?? meta?.treeInfo;
+    const leafIndex = treeInfo?.leaf_index ?? treeInfo?.leafIndex;
+    return typeof leafIndex === 'number' ? leafIndex : null;
+}
+
+/**
+ * Pool events in one transaction (top-level swap program instructions)
+ */
+export function decodePoolEvents(
+    signature: string,
+    tx: VersionedTransactionResponse,
+    programId: PublicKey = LIGHT_SWAP_PROGRAM_ID
+): PoolEvent[] {
+    if (!instructionCoder) instructionCoder = new BorshInstructionCoder(lightSwapIdl as Idl);
+    const coder = instructionCoder;
+
+    const message = tx.transaction.message;
+    const accountKeys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+    const signer = accountKeys.get(0)?.toBase58() ?? '';
+    const events: PoolEvent[] = [];
+
+    message.compiledInstructions.forEach((ix, instructionIndex) => {
+        if (!accountKeys.get(ix.programIdIndex)?.equals(programId)) return;
+
+        try {
+            // Data that does not match the IDL (e.g. from another program version) throws here
+            const decoded = coder.decode(Buffer.from(ix.data));
+            const kind = decoded && INSTRUCTION_KINDS[decoded.name];
+            if (!decoded || !kind) return;
+
+            // Coder keeps the IDL's snake_case names; accept camelCase too
+            const args = decoded.data as any;
+            const state = decodePoolState(Buffer.from(args.pool_data ?? args.poolData));
+            events.push({
+                signature,
+                instructionIndex,
+                slot: tx.slot,
+                blockTime: tx.blockTime ?? null,
+                kind,
+                pool: derivePoolAddress(state.mintA, state.mintB).toBase58(),
+                mintA: state.mintA.toBase58(),
+                mintB: state.mintB.toBase58(),
+                aToB: kind === 'swap' ? Boolean(args.a_to_b ?? args.aToB) : null,
+                signer,
+                feeBps: state.feeBps,
+                leafIndex: poolMetaLeafIndex(args.pool_meta ?? args.poolMeta),
+            });
+        } catch (e: any) {
+            console.warn(`Could not decode instruction ${instructionIndex} in ${signature}:`, e.message);
+        }
+    });
+
+    return events;
+}
+
+// Newest first; instructions of one transaction in order
+function compareEvents(a: PoolEvent, b: PoolEvent): number {
+    return b.slot - a.slot
+        || a.signature.localeCompare(b.signature)
+        || a.instructionIndex - b.instructionIndex;
+}
+
+/**
+ * Signatures older than `from` (default: the newest) and newer than `until`,
+ * newest first, capped at `max`
+ */
+async function fetchSignatures(
+    rpc: IndexerRpc,
+    programId: PublicKey,
+    from: string | undefined,
+    until: string | null,
+    max: number
+): Promise<{ signatures: ConfirmedSignatureInfo[]; complete: boolean }> {
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before = from;
+    while (signatures.length < max) {
+        const limit = Math.min(SIGNATURE_PAGE_SIZE, max - signatures.length);
+        const page = await rpc.getSignaturesForAddress(programId, {
+            before,
+            until: until ?? undefined,
+            limit,
+        }, 'confirmed');
+        signatures.push(...page);
+        if (page.length < limit) return { signatures, complete: true };
+        before = page[page.length - 1].signature;
+    }
+    return { signatures, complete: until === null };
+}
+
+/**
+ * Index everything the program did since the last sync
+ */
+export async function syncPoolEvents(
+    rpc: IndexerRpc,
+    store: IndexerStore,
+    options: { programId?: PublicKey; maxSignatures?: number } = {}
+): Promise<{ added: number; state: IndexerState }> {
+    const { programId = LIGHT_SWAP_PROGRAM_ID, maxSignatures = DEFAULT_MAX_SIGNATURES } = options;
+    const state = await store.load();
+
+    // Finish an earlier gap first; new signatures wait until it is closed
+    let { cursor, backfill } = state;
+    const signatures: ConfirmedSignatureInfo[] = [];
+    if (backfill) {
+        const gap = await fetchSignatures(rpc, programId, backfill.before, backfill.until, maxSignatures);
+        signatures.push(...gap.signatures);
+        backfill = gap.complete ? null
+            : { ...backfill, before: gap.signatures[gap.signatures.length - 1]?.signature ?? backfill.before };
+    }
+    if (!backfill && signatures.length < maxSignatures) {
+        const head = await fetchSignatures(rpc, programId, undefined, cursor, maxSignatures - signatures.length);
+        signatures.push(...head.signatures);
+        if (!head.complete && cursor && head.signatures.length > 0) {
+            backfill = { before: head.signatures[head.signatures.length - 1].signature, until: cursor };
+            console.warn(`Indexer fetched ${head.signatures.length} new signatures without reaching the last sync; the rest is backfilled next sync`);
+        }
+        cursor = head.signatures[0]?.signature ?? cursor;
+    }
+
+    const successful = signatures.filter(s => !s.err).map(s => s.signature);
+    const added: PoolEvent[] = [];
+    for (let i = 0; i < successful.length; i += TRANSACTION_BATCH_SIZE) {
+        const batch = successful.slice(i, i + TRANSACTION_BATCH_SIZE);
+        const transactions = await rpc.getTransactions(batch, {
+            maxSupportedTransactionVersion: 0,
+            commitment: 'confirmed',
+        });
+        transactions.forEach((tx, j) => {
+            if (!tx || tx.meta?.err) return;
+            added.push(...decodePoolEvents(batch[j], tx, programId));
+        });
+    }
+
+    // A re-run over the same signatures must not duplicate events
+    const known = new Set(state.events.map(e => `${e.signature}:${e.instructionIndex}`));
+    const fresh = added.filter(e => !known.has(`${e.signature}:${e.instructionIndex}`));
+
+    const next: IndexerState = {
+        cursor,
+        backfill,
+        events: [...fresh, ...state.events].sort(compareEvents).slice(0, MAX_STORED_EVENTS),
+        syncedAt: Date.now(),
+    };
+    await store.save(next);
+
+    console.log('Indexer sync:', {
+        signatures: signatures.length,
+        added: fresh.length,
+        backfilling: !!backfill,
+        total: next.events.length,
+    });
+
+    return { added: fresh.length, state: next };
+}
+
+/**
+ * Clamp offset / limit from a query into a valid page window
+ */
+export function pageWindow(offset?: number, limit?: number): { offset: number; limit: number } {
+    return {
+        offset: Math.max(0, Math.floor(offset ?? 0) || 0),
+        limit: Math.min(MAX_PAGE_LIMIT, Math.max(1, Math.floor(limit ?? DEFAULT_PAGE_LIMIT) || DEFAULT_PAGE_LIMIT)),
+    };
+}
+
+export function paginate<T>(items: T[], offset?: number, limit?: number): Page<T> {
+    const window = pageWindow(offset, limit);
+    const end = window.offset + window.limit;
+    return {
+        items: items.slice(window.offset, end),
+        total: items.length,
+        ...window,
+        nextOffset: end < items.length ? end : null,
+    };
+}
+
+/**
+ * Filtered page of events, newest first
+ */
+export function queryPoolEvents(state: IndexerState, query: PoolEventQuery = {}): Page<PoolEvent> {
+    const events = state.events.filter(e =>
+        (!query.pool || e.pool === query.pool) &&
+        (!query.kind || e.kind === query.kind) &&
+        (!query.signer || e.signer === query.signer)
+    );
+    return paginate(events, query.offset, query.limit);
+}
+
+/**
+ * Per-pool activity totals, most recently active first
+ */
+export function summarizePools(events: PoolEvent[]): IndexedPool[] {
+    const pools = new Map<string, IndexedPool & { signers: Set<string> }>();
+    for (const event of events) {
+        let pool = pools.get(event.pool);
+        if (!pool) {
+            pool = {
+                pool: event.pool,
+                mintA: event.mintA,
+                mintB: event.mintB,
+                swaps: 0,
+                swapsAToB: 0,
+                deposits: 0,
+                withdrawals: 0,
+                traders: 0,
+                feeBps: event.feeBps,
+                leafIndex: event.leafIndex,
+                firstSlot: event.slot,
+                lastSlot: event.slot,
+                lastBlockTime: event.blockTime,
+                signers: new Set(),
+            };
+            pools.set(event.pool, pool);
+        }
+        if (event.kind === 'swap') {
+            pool.swaps++;
+            if (event.aToB) pool.swapsAToB++;
+            pool.signers.add(event.signer);
+        } else if (event.kind === 'add_liquidity') {
+            pool.deposits++;
+        } else {
+            pool.withdrawals++;
+        }
+        pool.firstSlot = Math.min(pool.firstSlot, event.slot);
+        if (event.slot >= pool.lastSlot) {
+            pool.lastSlot = event.slot;
+            pool.lastBlockTime = event.blockTime ?? pool.lastBlockTime;
+            pool.feeBps = event.feeBps;
+            pool.leafIndex = event.leafIndex;
+        }
+    }
+    return Array.from(pools.values())
+        .map(({ signers, ...pool }) => ({ ...pool, traders: signers.size }))
+        .sort((a, b) => b.lastSlot - a.lastSlot);
+}
+
+export type ActivityInterval = 'hour' | 'day';
+
+export const ACTIVITY_INTERVALS: Record<ActivityInterval, { seconds: number; buckets: number }> = {
+    hour: { seconds: 3600, buckets: 24 },
+    day: { seconds: 86400, buckets: 30 },
+};
+
+export interface ActivityBucket {
+    start: number; // seconds since epoch
+    swapsAToB: number;
+    swapsBToA: number;
+    traders: number; // distinct swap signers in the bucket
+    deposits: number;
+    withdrawals: number;
+    leafChurn: number; // distinct pool leaves consumed (nullified and re-appended) in the bucket
+    feeBps: number | null; // fee tier of the last event in the bucket
+}
+
+/**
+ * Activity per time bucket for one pool (or every pool), oldest bucket first,
+ * ending with the bucket that contains `now`. Events without a block time are skipped.
+ */
+export function poolActivitySeries(
+    events: PoolEvent[],
+    options: { pool?: string; interval?: ActivityInterval; buckets?: number; now?: number } = {}
+): ActivityBucket[] {
+    const { pool, interval = 'hour', now = Math.floor(Date.now() / 1000) } = options;
+    const { seconds } = ACTIVITY_INTERVALS[interval];
+    const count = options.buckets ?? ACTIVITY_INTERVALS[interval].buckets;
+    const first = Math.floor(now / seconds) * seconds - (count - 1) * seconds;
+
+    const buckets: (ActivityBucket & { signers: Set<string>; leaves: Set<string>; lastSlot: number })[] = Array.from({ length: count }, (_, i) => ({
+        start: first + i * seconds,
+        swapsAToB: 0,
+        swapsBToA: 0,
+        traders: 0,
+        deposits: 0,
+        withdrawals: 0,
+        leafChurn: 0,
+        feeBps: null,
+        signers: new Set(),
+        leaves: new Set(),
+        lastSlot: -1,
+    }));
+
+    for (const event of events) {
+        if (event.blockTime === null || (pool && event.pool !== pool)) continue;
+        const index = Math.floor((event.blockTime - first) / seconds);
+        const bucket = buckets[index];
+        if (!bucket) continue;
+
+        if (event.kind === 'swap') {
+            if (event.aToB) bucket.swapsAToB++;
+            else bucket.swapsBToA++;
+            bucket.signers.add(event.signer);
+        } else if (event.kind === 'add_liquidity') {
+            bucket.deposits++;
+        } else {
+            bucket.withdrawals++;
+        }
+        if (event.leafIndex !== null) bucket.leaves.add(`${event.pool}:${event.leafIndex}`);
+        if (event.slot >= bucket.lastSlot) {
+            bucket.lastSlot = event.slot;
+            bucket.feeBps = event.feeBps ?? null;
+        }
+    }
+
+    return buckets.map(({ signers, leaves, lastSlot, ...bucket }) => ({
+        ...bucket,
+        traders: signers.size,
+        leafChurn: leaves.size,
+    }));
+}
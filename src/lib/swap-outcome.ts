@@ -0,0 +1,97 @@
+/**
+ * Swap Outcome Verification
+ *
+ * A swap that fails the on-chain liquidity or k-invariant check is zeroed with
+ * e_select and the transaction still succeeds. The only way to tell the user is
+ * to decrypt their Token A / Token B balance handles before and after the swap
+ * and compare the plaintexts.
+ */
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { parseIncoAccountData, decryptBalances } from './inco-balance';
+
+// Covalidator needs a moment to process handles produced by the swap
+const DECRYPT_ATTEMPTS = 3;
+const DECRYPT_RETRY_MS = 3000;
+
+export interface BalanceHandles {
+    tokenA: string;
+    tokenB: string;
+}
+
+export type SwapOutcome =
+    | { status: 'executed'; deltaA: bigint; deltaB: bigint }
+    | { status: 'zeroed' }
+    | { status: 'unverified'; reason: string };
+
+async function readHandle(connection: Connection, account: PublicKey): Promise<string> {
+    const info = await connection.getAccountInfo(account, 'confirmed');
+    if (!info) throw new Error(`Token account ${account.toBase58()} not found`);
+    return parseIncoAccountData(info.data as Buffer).amountHandle;
+}
+
+/**
+ * Read the current encrypted balance handles of the user's swap accounts
+ */
+export async function snapshotBalanceHandles(
+    connection: Connection,
+    userTokenA: PublicKey,
+    userTokenB: PublicKey
+): Promise<BalanceHandles> {
+    const [tokenA, tokenB] = await Promise.all([
+        readHandle(connection, userTokenA),
+        readHandle(connection, userTokenB),
+    ]);
+    return { tokenA, tokenB };
+}
+
+/**
+ * Compare decrypted balances before and after a swap.
+ * Decrypts all four handles in a single attested-decrypt request (one signature).
+ */
+export async function verifySwapOutcome(params: {
+    connection: Connection;
+    userTokenA: PublicKey;
+    userTokenB: PublicKey;
+    before: BalanceHandles;
+    walletAddress: PublicKey;
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+}): Promise<SwapOutcome> {
+    const { connection, userTokenA, userTokenB, before, walletAddress, signMessage } = params;
+
+    let after: BalanceHandles;
+    try {
+        after = await snapshotBalanceHandles(connection, userTokenA, userTokenB);
+    } catch (e: any) {
+        return { status: 'unverified', reason: e.message };
+    }
+
+    // Handles untouched → the transfers never ran
+    if (after.tokenA === before.tokenA && after.tokenB === before.tokenB) {
+        return { status: 'zeroed' };
+    }
+
+    let lastError = 'unknown error';
+    for (let attempt = 0; attempt < DECRYPT_ATTEMPTS; attempt++) {
+        await new Promise(r => setTimeout(r, DECRYPT_RETRY_MS));
+        try {
+            const [beforeA, beforeB, afterA, afterB] = await decryptBalances(
+                [before.tokenA, before.tokenB, after.tokenA, after.tokenB],
+                walletAddress,
+                signMessage
+            );
+            const deltaA = BigInt(afterA) - BigInt(beforeA);
+            const deltaB = BigInt(afterB) - BigInt(beforeB);
+
+            console.log('Swap outcome:', { deltaA: deltaA.toString(), deltaB: deltaB.toString() });
+
+            if (deltaA === 0n && deltaB === 0n) return { status: 'zeroed' };
+            return { status: 'executed', deltaA, deltaB };
+        } catch (e: any) {
+            lastError = e.message;
+            console.warn(`Outcome decrypt attempt ${attempt + 1} failed:`, e.message);
+        }
+    }
+
+    return { status: 'unverified', reason: lastError };
+}
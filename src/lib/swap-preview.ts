@@ -0,0 +1,179 @@
+/**
+ * Swap Preview
+ *
+ * Simulates a built swap transaction before the wallet is asked to sign it, so
+ * the user sees what they are about to approve:
+ * - compute units consumed
+ * - every account the transaction touches (signer / writable, labelled when known)
+ * - program logs
+ * - each Inco Token transfer CPI and whether it succeeded
+ *
+ * A failed simulation carries the decoded reason (see swap-errors.ts) and must
+ * block signing. Encrypted amounts are not visible here: the Inco transfers move
+ * ciphertext handles, so the preview confirms they run, not how much they move.
+ */
+
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    VersionedTransaction,
+    type VersionedMessage,
+} from '@solana/web3.js';
+import { accountCompressionProgram, lightSystemProgram } from '@lightprotocol/stateless.js';
+import { PROGRAM_IDS } from './cluster-config';
+import { decodeError, type SwapError } from './swap-errors';
+
+export interface PreviewAccount {
+    address: string;
+    label: string | null;
+    signer: boolean;
+    writable: boolean;
+}
+
+export interface IncoTransferCpi {
+    depth: number; // invoke depth, 2 for a CPI from the swap program
+    ok: boolean;
+}
+
+export interface SwapPreview {
+    ok: boolean;
+    unitsConsumed: number | null;
+    accounts: PreviewAccount[];
+    logs: string[];
+    incoTransfers: IncoTransferCpi[];
+    error: SwapError | null; // decoded simulation failure
+}
+
+const PROGRAM_LABELS = new Map<string, string>([
+    [PROGRAM_IDS.swap.toBase58(), 'Swap program'],
+    [PROGRAM_IDS.incoToken.toBase58(), 'Inco Token program'],
+    [PROGRAM_IDS.incoLightning.toBase58(), 'Inco Lightning program'],
+    [lightSystemProgram, 'Light system program'],
+    [accountCompressionProgram, 'Light account compression'],
+    [ComputeBudgetProgram.programId.toBase58(), 'Compute budget program'],
+    [SystemProgram.programId.toBase58(), 'System program'],
+]);
+
+// Legacy transactions from the builders have no blockhash yet; simulation replaces it anyway
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+function toMessage(tx: Transaction | VersionedTransaction, feePayer: PublicKey): VersionedMessage {
+    if (tx instanceof VersionedTransaction) return tx.message;
+    return new Transaction({ feePayer, recentBlockhash: PLACEHOLDER_BLOCKHASH })
+        .add(...tx.instructions)
+        .compileMessage();
+}
+
+async function fetchLookupTables(connection: Connection, message: VersionedMessage): Promise<AddressLookupTableAccount[]> {
+    const tables: AddressLookupTableAccount[] = [];
+    for (const { accountKey } of message.addressTableLookups) {
+        const { value } = await connection.getAddressLookupTable(accountKey);
+        if (!value) throw new Error(`Lookup table ${accountKey.toBase58()} not found`);
+        tables.push(value);
+    }
+    return tables;
+}
+
+async function listAccounts(
+    connection: Connection,
+    message: VersionedMessage,
+    labels: Map<string, string>
+): Promise<PreviewAccount[]> {
+    let keys: PublicKey[];
+    try {
+        const addressLookupTableAccounts = await fetchLookupTables(connection, message);
+        const accountKeys = message.getAccountKeys({ addressLookupTableAccounts });
+        keys = accountKeys.keySegments().flat();
+    } catch (e: any) {
+        console.warn('Could not resolve lookup table accounts for preview:', e.message);
+        keys = message.staticAccountKeys;
+    }
+    return keys.map((key, i) => {
+        const address = key.toBase58();
+        return {
+            address,
+            label: labels.get(address) ?? PROGRAM_LABELS.get(address) ?? null,
+            signer: message.isAccountSigner(i),
+            writable: message.isAccountWritable(i),
+        };
+    });
+}
+
+/**
+ * Inco Token transfer CPIs in the logs, tracked through the invoke stack
+ */
+export function findIncoTransfers(logs: string[]): IncoTransferCpi[] {
+    const incoToken = PROGRAM_IDS.incoToken.toBase58();
+    const transfers: IncoTransferCpi[] = [];
+    const stack: { programId: string; depth: number; transfer: boolean }[] = [];
+
+    for (const line of logs) {
+        const invoke = line.match(/^Program (\w+) invoke \[(\d+)\]/);
+        if (invoke) {
+            stack.push({ programId: invoke[1], depth: Number(invoke[2]), transfer: false });
+            continue;
+        }
+        const top = stack[stack.length - 1];
+        if (!top) continue;
+        if (top.programId === incoToken && /^Program log: Instruction: Transfer(Checked)?$/.test(line)) {
+            top.transfer = true;
+            continue;
+        }
+        const result = line.match(/^Program (\w+) (success|failed)/);
+        if (result && result[1] === top.programId) {
+            stack.pop();
+            if (top.transfer) transfers.push({ depth: top.depth, ok: result[2] === 'success' });
+        }
+    }
+    return transfers;
+}
+
+/**
+ * Simulate a transaction as the wallet would sign it (no signature check,
+ * fresh blockhash) and collect the preview
+ * @param labels - names for known accounts (base58), e.g. the user's token accounts and pool vaults
+ */
+export async function previewTransaction(
+    connection: Connection,
+    tx: Transaction | VersionedTransaction,
+    feePayer: PublicKey,
+    labels: Map<string, string> = new Map()
+): Promise<SwapPreview> {
+    const message = toMessage(tx, feePayer);
+    const accounts = await listAccounts(
+        connection,
+        message,
+        new Map([...labels, [feePayer.toBase58(), 'Fee payer (you)']])
+    );
+
+    const simulation = await connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+    });
+    const { err, logs, unitsConsumed } = simulation.value;
+
+    const preview: SwapPreview = {
+        ok: !err,
+        unitsConsumed: unitsConsumed ?? null,
+        accounts,
+        logs: logs ?? [],
+        incoTransfers: findIncoTransfers(logs ?? []),
+        error: err
+            ? decodeError(Object.assign(new Error(`Simulation failed: ${JSON.stringify(err)}`), { logs: logs ?? [] }))
+            : null,
+    };
+
+    console.log('Swap preview:', {
+        ok: preview.ok,
+        unitsConsumed: preview.unitsConsumed,
+        accounts: preview.accounts.length,
+        incoTransfers: preview.incoTransfers,
+        error: preview.error?.code,
+    });
+
+    return preview;
+}
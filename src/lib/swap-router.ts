@@ -0,0 +1,357 @@
+/**
+ * Swap Router
+ *
+ * Multi-hop routing across confidential pools (A → B → C):
+ * 1. Find a path through the pools in the registry (fewest hops)
+ * 2. Quote each leg against that pool's decrypted reserves, feeding the
+ *    quoted output of one leg into the next as its input (exact-output
+ *    routes are quoted backwards from the last leg)
+ * 3. Pack all legs into one V0 transaction with the pools' lookup tables, or
+ *    split them into a tightly sequenced set when they do not fit
+ *
+ * Legs are chained through the user's intermediate token account: each leg's
+ * amount-in ciphertext encrypts exactly the previous leg's quoted amount-out.
+ */
+
+import {
+    ComputeBudgetProgram,
+    Connection,
+    PACKET_DATA_SIZE,
+    PublicKey,
+    Transaction,
+    TransactionMessage,
+    VersionedTransaction,
+    type AddressLookupTableAccount,
+    type TransactionInstruction,
+} from '@solana/web3.js';
+import {
+    buildSwapExactInInstruction,
+    buildPoolTransaction,
+    type WalletAdapter,
+} from './swap-client';
+import {
+    fetchPoolReserves,
+    quoteExactIn,
+    quoteExactOut,
+    encryptSwapQuote,
+    type PoolReserves,
+    type SwapQuote,
+} from './pool-quote';
+import type { PoolEntry, TokenInfo } from './pool-registry';
+import {
+    MAX_COMPUTE_UNITS,
+    estimatePriorityFee,
+    getFeeSpeed,
+    networkFeeLamports,
+    type FeePlan,
+    type FeeSpeed,
+} from './fee-planner';
+import { resolveLookupTables } from './lookup-tables';
+import { DEFAULT_SLIPPAGE_BPS } from './swap-settings';
+
+export const MAX_ROUTE_HOPS = 3;
+
+// Compute units per swap_exact_in leg (FHE ops + Light state transition), for
+// network fee estimates before the transaction is built and simulated
+const SWAP_LEG_COMPUTE_UNITS = 500_000;
+
+export type RouteFeePlan = Pick<FeePlan, 'computeUnits' | 'microLamports'>;
+
+export interface RouteLeg {
+    pool: PoolEntry;
+    aToB: boolean;
+    tokenIn: TokenInfo;
+    tokenOut: TokenInfo;
+}
+
+export interface RouteQuote {
+    legs: { leg: RouteLeg; quote: SwapQuote }[];
+    amountIn: bigint;
+    amountOut: bigint; // encrypted by the last leg (the minimum when slippage applies)
+    expectedAmountOut: bigint; // output at the current reserves
+    priceImpactBps: number; // compounded over the legs
+    networkFeeLamports: number | null; // null without a fee plan
+}
+
+/**
+ * Find the shortest path of pools from `fromMint` to `toMint` (BFS)
+ */
+export function findRoute(
+    pools: PoolEntry[],
+    fromMint: PublicKey,
+    toMint: PublicKey,
+    maxHops: number = MAX_ROUTE_HOPS
+): RouteLeg[] | null {
+    if (fromMint.equals(toMint)) return null;
+
+    const visited = new Set<string>([fromMint.toBase58()]);
+    let frontier: { mint: PublicKey; path: RouteLeg[] }[] = [{ mint: fromMint, path: [] }];
+
+    for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+        const next: typeof frontier = [];
+        for (const { mint, path } of frontier) {
+            for (const pool of pools) {
+                if (pool.state.isPaused) continue;
+
+                let leg: RouteLeg | null = null;
+                if (pool.state.mintA.equals(mint)) {
+                    leg = { pool, aToB: true, tokenIn: pool.tokenA, tokenOut: pool.tokenB };
+                } else if (pool.state.mintB.equals(mint)) {
+                    leg = { pool, aToB: false, tokenIn: pool.tokenB, tokenOut: pool.tokenA };
+                }
+                if (!leg) continue;
+
+                const outMint = leg.tokenOut.mint;
+                if (outMint.equals(toMint)) return [...path, leg];
+
+                const key = outMint.toBase58();
+                if (visited.has(key)) continue;
+                visited.add(key);
+                next.push({ mint: outMint, path: [...path, leg] });
+            }
+        }
+        frontier = next;
+    }
+
+    return null;
+}
+
+/**
+ * Tokens reachable from `fromMint` within `maxHops`
+ */
+export function listReachableTokens(
+    pools: PoolEntry[],
+    fromMint: PublicKey,
+    maxHops: number = MAX_ROUTE_HOPS
+): TokenInfo[] {
+    const tokens = new Map<string, TokenInfo>();
+    for (const pool of pools) {
+        for (const token of [pool.tokenA, pool.tokenB]) {
+            const key = token.mint.toBase58();
+            if (tokens.has(key) || token.mint.equals(fromMint)) continue;
+            if (findRoute(pools, fromMint, token.mint, maxHops)) tokens.set(key, token);
+        }
+    }
+    return Array.from(tokens.values());
+}
+
+/**
+ * Decrypt reserves for every pool on the route (one signature per pool with new handles)
+ */
+export async function loadRouteReserves(
+    route: RouteLeg[],
+    walletAddress: PublicKey,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<PoolReserves[]> {
+    const reserves: PoolReserves[] = [];
+    for (const { pool } of route) {
+        reserves.push(await fetchPoolReserves(pool.state.mintA, pool.state.mintB, walletAddress, signMessage));
+    }
+    return reserves;
+}
+
+/**
+ * Network fee inputs for a route before it is built: the priority fee for the
+ * pools' vaults at the given speed and an estimated compute limit per leg
+ */
+export async function estimateRouteFeePlan(
+    connection: Connection,
+    route: RouteLeg[],
+    speed: FeeSpeed = getFeeSpeed()
+): Promise<RouteFeePlan> {
+    const vaults = route.flatMap(({ pool }) => [pool.vaultA, pool.vaultB])
+        .filter((vault): vault is PublicKey => !!vault);
+    return {
+        computeUnits: SWAP_LEG_COMPUTE_UNITS * route.length,
+        microLamports: await estimatePriorityFee(connection, vaults, speed),
+    };
+}
+
+// 1 - Π(1 - impact) over the legs
+function compoundPriceImpact(legs: RouteQuote['legs']): number {
+    const kept = legs.reduce((acc, { quote }) => acc * (1 - quote.priceImpactBps / 10000), 1);
+    return Math.round((1 - kept) * 10000);
+}
+
+function routeNetworkFee(feePlan: RouteFeePlan | undefined): number | null {
+    return feePlan ? networkFeeLamports(feePlan.computeUnits, feePlan.microLamports) : null;
+}
+
+/**
+ * Quote a route leg by leg; each leg's output is the next leg's input.
+ * With a slippage tolerance every leg carries its minimum output, so the
+ * tolerance compounds per hop.
+ */
+export function quoteRoute(
+    route: RouteLeg[],
+    amountIn: bigint,
+    reserves: PoolReserves[],
+    slippageBps: number = 0,
+    feePlan?: RouteFeePlan
+): RouteQuote {
+    if (reserves.length !== route.length) {
+        throw new Error('Missing pool reserves for route');
+    }
+
+    const legs: RouteQuote['legs'] = [];
+    let legAmountIn = amountIn;
+    route.forEach((leg, i) => {
+        const quote = quoteExactIn(legAmountIn, leg.aToB, reserves[i], slippageBps);
+        legs.push({ leg, quote });
+        legAmountIn = quote.amountOut;
+    });
+
+    return {
+        legs,
+        amountIn,
+        amountOut: legAmountIn,
+        expectedAmountOut: slippageBps > 0 ? quoteRoute(route, amountIn, reserves).amountOut : legAmountIn,
+        priceImpactBps: compoundPriceImpact(legs),
+        networkFeeLamports: routeNetworkFee(feePlan),
+    };
+}
+
+/**
+ * Quote a route backwards from an exact output; each leg must deliver the next
+ * leg's buffered input, and the first leg's input is what the user pays
+ */
+export function quoteRouteExactOut(
+    route: RouteLeg[],
+    amountOut: bigint,
+    reserves: PoolReserves[],
+    bufferBps: number = DEFAULT_SLIPPAGE_BPS,
+    feePlan?: RouteFeePlan
+): RouteQuote {
+    if (reserves.length !== route.length) {
+        throw new Error('Missing pool reserves for route');
+    }
+
+    const legs: RouteQuote['legs'] = [];
+    let legAmountOut = amountOut;
+    for (let i = route.length - 1; i >= 0; i--) {
+        const quote = quoteExactOut(legAmountOut, route[i].aToB, reserves[i], bufferBps);
+        legs.unshift({ leg: route[i], quote });
+        legAmountOut = quote.amountIn;
+    }
+
+    return {
+        legs,
+        amountIn: legAmountOut,
+        amountOut,
+        expectedAmountOut: amountOut,
+        priceImpactBps: compoundPriceImpact(legs),
+        networkFeeLamports: routeNetworkFee(feePlan),
+    };
+}
+
+// Sizing stand-ins: compute budget instructions encode to the same size whatever
+// their values, and any 32-byte blockhash serializes like the real one
+const PLACEHOLDER_BUDGET_IXS = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+];
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Whether the legs fit in one transaction, measured on the compiled message
+ * (with compute budget instructions and unsigned signature slots) before any
+ * fee planning or blockhash fetch. Mirrors buildPoolTransaction: V0 with the
+ * lookup tables, legacy without.
+ */
+function fitsInPacket(
+    payer: PublicKey,
+    ixs: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[]
+): boolean {
+    const instructions = [...PLACEHOLDER_BUDGET_IXS, ...ixs];
+    try {
+        const size = lookupTables.length > 0
+            ? new VersionedTransaction(new TransactionMessage({
+                payerKey: payer,
+                recentBlockhash: PLACEHOLDER_BLOCKHASH,
+                instructions,
+            }).compileToV0Message(lookupTables)).serialize().length
+            : new Transaction({ feePayer: payer, recentBlockhash: PLACEHOLDER_BLOCKHASH })
+                .add(...instructions)
+                .serialize({ requireAllSignatures: false, verifySignatures: false }).length;
+        return size <= PACKET_DATA_SIZE;
+    } catch {
+        return false; // too large to serialize, or too many accounts to compile
+    }
+}
+
+/**
+ * Build the transactions for a quoted route.
+ * Tries to pack consecutive legs into as few transactions as possible;
+ * the returned transactions must be sent in order.
+ *
+ * @param userAccounts - user's IncoAccount per mint (base58) for every token on the route
+ */
+export async function buildRouteTransactions(params: {
+    connection: Connection;
+    wallet: WalletAdapter;
+    routeQuote: RouteQuote;
+    userAccounts: Map<string, PublicKey>;
+}): Promise<(Transaction | VersionedTransaction)[]> {
+    const { connection, wallet, routeQuote, userAccounts } = params;
+
+    // Build one swap_exact_in instruction per leg
+    const ixs: TransactionInstruction[] = [];
+    for (const { leg, quote } of routeQuote.legs) {
+        const { pool } = leg;
+        const userTokenA = userAccounts.get(pool.state.mintA.toBase58());
+        const userTokenB = userAccounts.get(pool.state.mintB.toBase58());
+        if (!userTokenA || !userTokenB) {
+            throw new Error(`No confidential account for ${!userTokenA ? pool.tokenA.symbol : pool.tokenB.symbol}`);
+        }
+        if (!pool.vaultA || !pool.vaultB) {
+            throw new Error(`Pool vaults could not be resolved for ${pool.tokenA.symbol}/${pool.tokenB.symbol}`);
+        }
+
+        const ciphertexts = await encryptSwapQuote(quote);
+        ixs.push(await buildSwapExactInInstruction({
+            connection,
+            wallet,
+            mintA: pool.state.mintA,
+            mintB: pool.state.mintB,
+            ...ciphertexts,
+            aToB: leg.aToB,
+            userTokenA,
+            userTokenB,
+            poolVaultA: pool.vaultA,
+            poolVaultB: pool.vaultB,
+        }));
+    }
+
+    // Every pool's own lookup table (or the shared one) so legs compress into one V0 message
+    const lookupTables = await resolveLookupTables(connection, routeQuote.legs.map(({ leg }) => leg.pool));
+
+    // Greedily pack consecutive legs while the transaction still fits in a packet
+    const groups: TransactionInstruction[][] = [];
+    let start = 0;
+    while (start < ixs.length) {
+        let end = start + 1;
+        while (end < ixs.length && fitsInPacket(wallet.publicKey, ixs.slice(start, end + 1), lookupTables)) end++;
+        groups.push(ixs.slice(start, end));
+        start = end;
+    }
+
+    // Fees are planned (simulated) once per transaction, after the legs are grouped
+    const transactions: (Transaction | VersionedTransaction)[] = [];
+    for (const group of groups) {
+        transactions.push(await buildPoolTransaction(
+            connection,
+            wallet.publicKey,
+            group,
+            group.length > 1 ? MAX_COMPUTE_UNITS : undefined, // fallback when a multi-leg simulation fails
+            lookupTables
+        ));
+    }
+
+    console.log('Route transactions:', {
+        legs: ixs.length,
+        transactions: transactions.length,
+    });
+
+    return transactions;
+}
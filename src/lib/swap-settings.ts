@@ -0,0 +1,90 @@
+/**
+ * Swap Settings
+ *
+ * User controls for how far a swap may deviate from its quote:
+ * - slippage: exact-in swaps encrypt the minimum acceptable output as the
+ *   amount-out ciphertext, so a price move beyond the tolerance fails the
+ *   program's guard and the swap is zeroed instead of filling at a bad rate.
+ *   The pool pays exactly the encrypted amount, so the user receives the
+ *   minimum. Exact-out swaps use the same tolerance as extra input.
+ * - deadline: how long after quoting the swap may still be signed, sent or
+ *   rebroadcast. The program has no deadline argument, so it is enforced
+ *   by the submitter.
+ *
+ * Persisted in localStorage (browser-wide, not per wallet).
+ */
+
+const STORAGE_KEY = 'velvet-swap:swap-settings';
+
+export interface SwapSettings {
+    slippageBps: number;
+    deadlineSeconds: number;
+}
+
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100];
+export const DEFAULT_SLIPPAGE_BPS = 50;
+export const MAX_SLIPPAGE_BPS = 5000;
+
+export const DEFAULT_DEADLINE_SECONDS = 120;
+export const MIN_DEADLINE_SECONDS = 30;
+export const MAX_DEADLINE_SECONDS = 1800;
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+    slippageBps: DEFAULT_SLIPPAGE_BPS,
+    deadlineSeconds: DEFAULT_DEADLINE_SECONDS,
+};
+
+/**
+ * Problems with a settings value, or null when it can be used
+ */
+export function validateSwapSettings(settings: SwapSettings): string | null {
+    const { slippageBps, deadlineSeconds } = settings;
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+        return `Slippage must be between 0% and ${MAX_SLIPPAGE_BPS / 100}%`;
+    }
+    if (!Number.isInteger(deadlineSeconds) || deadlineSeconds < MIN_DEADLINE_SECONDS || deadlineSeconds > MAX_DEADLINE_SECONDS) {
+        return `Deadline must be between ${MIN_DEADLINE_SECONDS / 60} and ${MAX_DEADLINE_SECONDS / 60} minutes`;
+    }
+    return null;
+}
+
+export function loadSwapSettings(): SwapSettings {
+    if (typeof window === 'undefined' || !window.localStorage) return DEFAULT_SWAP_SETTINGS;
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_SWAP_SETTINGS;
+        const settings = { ...DEFAULT_SWAP_SETTINGS, ...JSON.parse(raw) };
+        return validateSwapSettings(settings) ? DEFAULT_SWAP_SETTINGS : settings;
+    } catch (e) {
+        console.warn('Failed to read swap settings:', e);
+        return DEFAULT_SWAP_SETTINGS;
+    }
+}
+
+/**
+ * Persist settings; throws when they are out of range
+ */
+export function saveSwapSettings(settings: SwapSettings): SwapSettings {
+    const problem = validateSwapSettings(settings);
+    if (problem) throw new Error(problem);
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Failed to write swap settings:', e);
+    }
+    return settings;
+}
+
+/**
+ * Smallest output accepted at the given tolerance
+ */
+export function minimumAmountOut(amountOut: bigint, slippageBps: number): bigint {
+    return (amountOut * BigInt(10000 - slippageBps)) / 10000n;
+}
+
+/**
+ * Swap deadline as ms since epoch, counted from now
+ */
+export function swapDeadline(settings: SwapSettings): number {
+    return Date.now() + settings.deadlineSeconds * 1000;
+}
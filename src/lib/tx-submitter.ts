@@ -0,0 +1,206 @@
+/**
+ * Transaction Submitter
+ *
+ * Shared send path for every wallet-signed transaction:
+ * 1. Stamp a fresh blockhash right before the wallet signs (builders may have
+ *    fetched theirs long before, e.g. while encrypting or fetching proofs)
+ * 2. Send, then rebroadcast the same bytes until it confirms or the blockhash expires
+ * 3. Confirm by polling signature status against lastValidBlockHeight
+ * 4. On expiry, re-stamp and ask the wallet to sign again (bounded attempts)
+ * 5. With a deadline, stop signing, sending and rebroadcasting once it passes
+ *
+ * Progress is reported through `onEvent` so the UI can render each stage.
+ */
+
+import {
+    Connection,
+    PublicKey,
+    Transaction,
+    VersionedTransaction,
+    type Commitment,
+    type TransactionConfirmationStatus,
+} from '@solana/web3.js';
+
+const REBROADCAST_INTERVAL_MS = 2000;
+const MAX_SIGN_ATTEMPTS = 3;
+
+export type SubmissionEvent =
+    | { type: 'signing'; attempt: number }
+    | { type: 'sent'; signature: string; attempt: number }
+    | { type: 'rebroadcast'; signature: string; count: number }
+    | { type: 'expired'; signature: string; attempt: number }
+    | { type: 'confirmed'; signature: string; slot: number };
+
+const COMMITMENT_ORDER: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+function meetsCommitment(status: TransactionConfirmationStatus | undefined, commitment: Commitment): boolean {
+    if (!status) return false;
+    const target = COMMITMENT_ORDER.indexOf(commitment as TransactionConfirmationStatus);
+    return COMMITMENT_ORDER.indexOf(status) >= (target === -1 ? 1 : target);
+}
+
+function deadlinePassed(deadline: number | undefined): boolean {
+    return deadline !== undefined && Date.now() > deadline;
+}
+
+function isBlockhashError(e: any): boolean {
+    const message = String(e?.message || '');
+    return message.includes('Blockhash not found') || message.includes('block height exceeded');
+}
+
+/**
+ * Error for a transaction that landed but failed, with its logs attached so
+ * decodeError can tell which program failed
+ */
+async function landedFailure(connection: Connection, signature: string, err: unknown): Promise<Error> {
+    let logs: string[] = [];
+    try {
+        const tx = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+        logs = tx?.meta?.logMessages ?? [];
+    } catch (e: any) {
+        console.warn('Could not fetch logs for failed transaction:', e.message);
+    }
+    return Object.assign(new Error(`Transaction ${signature} failed: ${JSON.stringify(err)}`), { logs });
+}
+
+/**
+ * Human-readable status line for a submission event
+ */
+export function describeSubmissionEvent(event: SubmissionEvent): string {
+    switch (event.type) {
+        case 'signing':
+            return event.attempt > 1
+                ? `Transaction expired, please sign again (attempt ${event.attempt} of ${MAX_SIGN_ATTEMPTS})...`
+                : 'Please sign the transaction...';
+        case 'sent':
+            return `Sent ${event.signature.slice(0, 12)}..., waiting for confirmation...`;
+        case 'rebroadcast':
+            return `Waiting for confirmation (rebroadcast ${event.count})...`;
+        case 'expired':
+            return 'Transaction expired before it landed.';
+        case 'confirmed':
+            return `Confirmed in slot ${event.slot}.`;
+    }
+}
+
+/**
+ * Put a fresh blockhash and fee payer on the transaction (clears stale signatures)
+ */
+function stampBlockhash<T extends Transaction | VersionedTransaction>(tx: T, blockhash: string, feePayer: PublicKey): T {
+    if (tx instanceof VersionedTransaction) {
+        tx.message.recentBlockhash = blockhash;
+        return new VersionedTransaction(tx.message) as T;
+    }
+    tx.recentBlockhash = blockhash;
+    tx.feePayer = feePayer;
+    return tx;
+}
+
+/**
+ * Poll until the signature reaches `commitment`, rebroadcasting in between.
+ * Returns the slot, or null once the blockhash expired without the transaction landing.
+ */
+async function awaitConfirmation(
+    connection: Connection,
+    signature: string,
+    raw: Buffer | Uint8Array,
+    lastValidBlockHeight: number,
+    commitment: Commitment,
+    onEvent: (event: SubmissionEvent) => void,
+    deadline?: number
+): Promise<number | null> {
+    let rebroadcasts = 0;
+    while (true) {
+        const { value: [status] } = await connection.getSignatureStatuses([signature]);
+        if (status?.err) {
+            throw await landedFailure(connection, signature, status.err);
+        }
+        if (status && meetsCommitment(status.confirmationStatus, commitment)) {
+            return status.slot;
+        }
+
+        // Once landed it only needs to reach the commitment; expiry no longer applies
+        if (!status) {
+            const blockHeight = await connection.getBlockHeight(commitment);
+            if (blockHeight > lastValidBlockHeight) {
+                const { value: [last] } = await connection.getSignatureStatuses([signature], {
+                    searchTransactionHistory: true,
+                });
+                if (!last) return null;
+                if (last.err) {
+                    throw await landedFailure(connection, signature, last.err);
+                }
+            }
+        }
+
+        await new Promise(r => setTimeout(r, REBROADCAST_INTERVAL_MS));
+
+        // RPC nodes drop transactions under load; resending the same bytes is idempotent
+        if (!status && !deadlinePassed(deadline)) {
+            rebroadcasts++;
+            connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 }).catch(() => {});
+            onEvent({ type: 'rebroadcast', signature, count: rebroadcasts });
+        }
+    }
+}
+
+/**
+ * Sign, send and confirm a transaction, re-signing with a fresh blockhash when it expires
+ */
+export async function submitTransaction<T extends Transaction | VersionedTransaction>(params: {
+    connection: Connection;
+    transaction: T;
+    feePayer: PublicKey;
+    signTransaction: (tx: T) => Promise<T>;
+    commitment?: Commitment;
+    deadline?: number; // ms since epoch
+    onEvent?: (event: SubmissionEvent) => void;
+}): Promise<string> {
+    const { connection, feePayer, signTransaction, commitment = 'confirmed', deadline } = params;
+    const onEvent = (event: SubmissionEvent) => {
+        console.log('[tx]', event);
+        params.onEvent?.(event);
+    };
+
+    let transaction = params.transaction;
+    let sent = false; // an earlier attempt reached the cluster and expired unconfirmed
+    for (let attempt = 1; attempt <= MAX_SIGN_ATTEMPTS; attempt++) {
+        if (deadlinePassed(deadline)) {
+            throw new Error(sent
+                ? 'Transaction expired unconfirmed and the deadline has passed. Please request a new quote.'
+                : 'Deadline passed before the transaction was sent. Please request a new quote.');
+        }
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+        transaction = stampBlockhash(transaction, blockhash, feePayer);
+
+        onEvent({ type: 'signing', attempt });
+        const signed = await signTransaction(transaction);
+        const raw = signed.serialize();
+        if (deadlinePassed(deadline)) {
+            throw new Error('Deadline passed while waiting for the wallet; the transaction was not sent.');
+        }
+
+        let signature: string;
+        try {
+            signature = await connection.sendRawTransaction(raw, { skipPreflight: false, maxRetries: 0 });
+        } catch (e: any) {
+            // The wallet prompt outlived the blockhash
+            if (isBlockhashError(e)) {
+                onEvent({ type: 'expired', signature: '', attempt });
+                continue;
+            }
+            throw e;
+        }
+        onEvent({ type: 'sent', signature, attempt });
+        sent = true;
+
+        const slot = await awaitConfirmation(connection, signature, raw, lastValidBlockHeight, commitment, onEvent, deadline);
+        if (slot !== null) {
+            onEvent({ type: 'confirmed', signature, slot });
+            return signature;
+        }
+        onEvent({ type: 'expired', signature, attempt });
+    }
+
+    throw new Error('Transaction expired before confirmation. Please try again.');
+}